@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+// Sign the first admin token. Every other token is minted with POST /auth/tokens, which itself needs an
+// admin token, so the first one is signed here with the same secret the worker verifies tokens with.
+// The token is an HS256 JWT with the claims signToken in src/auth.ts puts in it.
+//
+//   AUTH_SECRET=<secret> npm run token:admin -- [sub] [expiresInDays]
+
+import { createHmac } from 'node:crypto';
+
+const secret = process.env.AUTH_SECRET;
+if (!secret) {
+  console.error("AUTH_SECRET must be set to the secret the worker was given with `wrangler secret put AUTH_SECRET`");
+  process.exit(1);
+}
+
+const sub = process.argv[2] || 'admin';
+const days = Number(process.argv[3] || 30);
+if (!Number.isInteger(days) || days < 1) {
+  console.error("expiresInDays must be a positive integer");
+  process.exit(1);
+}
+
+const base64Url = value => Buffer.from(value).toString('base64url');
+
+const now = Math.floor(Date.now() / 1000);
+const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+const payload = base64Url(JSON.stringify({ sub, role: 'admin', iat: now, exp: now + days * 24 * 3600 }));
+const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+
+console.log(`${header}.${payload}.${signature}`);
@@ -0,0 +1,223 @@
+import { CONTENT_TYPES, assertValidSchema, hasOwn, isObject } from './contentTypes';
+import { DEFAULT_BRANCH } from './contentStore';
+import { BadRequestError } from './errors';
+import { Archive, ArchiveMeta, ArchiveRecord, ArchivedVersion, ContentType, ImportMode, PublishRecord, Tag, VersionStatus } from './types';
+
+export const ARCHIVE_FORMAT = 'content-version-archive';
+// Bumped on changes older importers cannot read
+export const ARCHIVE_FORMAT_VERSION = 1;
+
+export const IMPORT_MODES: ImportMode[] = ['replace', 'merge'];
+
+export function archiveLine(record: ArchiveRecord): string {
+  return `${JSON.stringify(record)}\n`;
+}
+
+function isId(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function checkMeta(meta: unknown): ArchiveMeta {
+  if (!isObject(meta) || !isObject(meta.branches) || !isObject(meta.reviewSettings)) {
+    throw new Error("meta must have branches and reviewSettings");
+  }
+  if (meta.currentVersion !== 0 && !isId(meta.currentVersion)) {
+    throw new Error("meta.currentVersion must be a version id or 0");
+  }
+  for (const [name, branch] of Object.entries(meta.branches)) {
+    if (!isObject(branch) || branch.name !== name || (branch.head !== 0 && !isId(branch.head))) {
+      throw new Error(`branch ${name} must have its name and a head version id`);
+    }
+  }
+  // New versions go to the main branch, so a document cannot do without it
+  if (!hasOwn(meta.branches, DEFAULT_BRANCH)) {
+    throw new Error(`meta.branches must have the ${DEFAULT_BRANCH} branch`);
+  }
+  const { requiredApprovals } = meta.reviewSettings;
+  if (typeof requiredApprovals !== 'number' || !Number.isInteger(requiredApprovals) || requiredApprovals < 0) {
+    throw new Error("meta.reviewSettings.requiredApprovals must be a non-negative integer");
+  }
+  if (meta.contentType !== undefined && !CONTENT_TYPES.includes(meta.contentType as ContentType)) {
+    throw new Error(`meta.contentType must be one of ${CONTENT_TYPES.join(', ')}`);
+  }
+  if (meta.schema !== undefined) {
+    assertValidSchema(meta.schema);
+  }
+  if (meta.channels !== undefined) {
+    if (!isObject(meta.channels)) {
+      throw new Error("meta.channels must be an object");
+    }
+    for (const [name, channel] of Object.entries(meta.channels)) {
+      if (!isObject(channel) || channel.name !== name || (channel.versionId !== 0 && !isId(channel.versionId))) {
+        throw new Error(`channel ${name} must have its name and a version id`);
+      }
+    }
+  }
+  return meta as unknown as ArchiveMeta;
+}
+
+function checkVersion(version: unknown): ArchivedVersion {
+  const statuses = Object.values(VersionStatus) as string[];
+  if (!isObject(version) || !isId(version.id)) {
+    throw new Error("version.id must be a positive integer");
+  }
+  if (typeof version.content !== 'string' || typeof version.message !== 'string' || typeof version.timestamp !== 'string') {
+    throw new Error(`version ${version.id} must have a content, message and timestamp`);
+  }
+  if (!statuses.includes(version.status as string)) {
+    throw new Error(`version ${version.id} status must be one of ${statuses.join(', ')}`);
+  }
+  if (typeof version.branch !== 'string' || !Array.isArray(version.parents) || !version.parents.every(isId)) {
+    throw new Error(`version ${version.id} must have a branch and a list of parent ids`);
+  }
+  // Parents are always created first, which also rules out cycles
+  if (version.parents.some(parent => parent >= (version.id as number))) {
+    throw new Error(`version ${version.id} has a parent with a higher id`);
+  }
+  return version as unknown as ArchivedVersion;
+}
+
+function checkTag(tag: unknown): Tag {
+  if (!isObject(tag) || typeof tag.name !== 'string' || !tag.name || !isId(tag.versionId) || typeof tag.createdAt !== 'string') {
+    throw new Error("tag must have a name, versionId and createdAt");
+  }
+  return tag as unknown as Tag;
+}
+
+function checkPublishRecord(record: unknown): PublishRecord {
+  if (!isObject(record) || !isId(record.versionId) || typeof record.publishedAt !== 'string' || typeof record.publishedBy !== 'string') {
+    throw new Error("publish record must have a versionId, publishedAt and publishedBy");
+  }
+  return record as unknown as PublishRecord;
+}
+
+// Read an NDJSON archive and check that it is complete and consistent: every record is well formed,
+// every version id a record refers to is in the archive, and the end record counts match.
+// Problems are reported as a 400 with the line they are on.
+export function parseArchive(text: string): Archive {
+  const lines = text.split('\n').map(line => line.trim());
+  let archive: Archive | undefined;
+  let ended = false;
+
+  lines.forEach((line, index) => {
+    if (!line) {
+      return;
+    }
+    const lineNumber = index + 1;
+    if (ended) {
+      throw new BadRequestError(`Line ${lineNumber}: records after the end record`);
+    }
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new BadRequestError(`Line ${lineNumber} is not valid JSON`);
+    }
+    if (!isObject(record)) {
+      throw new BadRequestError(`Line ${lineNumber} is not a JSON object`);
+    }
+
+    try {
+      if (!archive) {
+        if (record.type !== 'header' || record.format !== ARCHIVE_FORMAT) {
+          throw new Error(`the archive must start with a ${ARCHIVE_FORMAT} header`);
+        }
+        if (!isId(record.formatVersion) || record.formatVersion > ARCHIVE_FORMAT_VERSION) {
+          throw new Error(`format version ${record.formatVersion} is not supported, the latest is ${ARCHIVE_FORMAT_VERSION}`);
+        }
+        archive = {
+          documentId: String(record.documentId),
+          meta: checkMeta(record.meta),
+          versions: [],
+          tags: [],
+          publishRecords: []
+        };
+        return;
+      }
+
+      switch (record.type) {
+        case 'version': {
+          const version = checkVersion(record.version);
+          const previous = archive.versions[archive.versions.length - 1];
+          if (previous && previous.id >= version.id) {
+            throw new Error(`version ${version.id} is out of order, versions must be in increasing id order`);
+          }
+          archive.versions.push(version);
+          break;
+        }
+        case 'tag':
+          archive.tags.push(checkTag(record.tag));
+          break;
+        case 'publish':
+          archive.publishRecords.push(checkPublishRecord(record.record));
+          break;
+        case 'end': {
+          const counts = isObject(record.counts) ? record.counts : {};
+          if (counts.versions !== archive.versions.length || counts.tags !== archive.tags.length
+            || counts.publishRecords !== archive.publishRecords.length) {
+            throw new Error("the record counts do not match the end record, the archive is incomplete");
+          }
+          ended = true;
+          break;
+        }
+        default:
+          throw new Error(`unknown record type ${JSON.stringify(record.type)}`);
+      }
+    } catch (err) {
+      throw new BadRequestError(`Line ${lineNumber}: ${(err as Error).message}`);
+    }
+  });
+
+  if (!archive) {
+    throw new BadRequestError("The archive is empty");
+  }
+  if (!ended) {
+    throw new BadRequestError("The archive has no end record, it may be truncated");
+  }
+
+  const ids = new Set(archive.versions.map(version => version.id));
+  const missing = (id: number): boolean => id !== 0 && !ids.has(id);
+  for (const version of archive.versions) {
+    if (version.parents.some(missing)) {
+      throw new BadRequestError(`Version ${version.id} has a parent that is not in the archive`);
+    }
+  }
+  for (const tag of archive.tags) {
+    if (missing(tag.versionId)) {
+      throw new BadRequestError(`Tag ${tag.name} points to version ${tag.versionId}, which is not in the archive`);
+    }
+  }
+  for (const record of archive.publishRecords) {
+    if (missing(record.versionId)) {
+      throw new BadRequestError(`A publish record points to version ${record.versionId}, which is not in the archive`);
+    }
+  }
+  for (const branch of Object.values(archive.meta.branches)) {
+    if (missing(branch.head)) {
+      throw new BadRequestError(`Branch ${branch.name} points to version ${branch.head}, which is not in the archive`);
+    }
+  }
+  for (const channel of Object.values(archive.meta.channels || {})) {
+    if (missing(channel.versionId)) {
+      throw new BadRequestError(`Channel ${channel.name} points to version ${channel.versionId}, which is not in the archive`);
+    }
+  }
+  // Only one version is live at a time
+  const published = archive.versions.filter(version => version.status === VersionStatus.PUBLISHED);
+  if (published.length > 1) {
+    throw new BadRequestError(`Versions ${published.map(version => version.id).join(', ')} are all marked published, only one can be`);
+  }
+  if (missing(archive.meta.currentVersion)) {
+    throw new BadRequestError(`The current version ${archive.meta.currentVersion} is not in the archive`);
+  }
+  return archive;
+}
+
+// Name for an imported branch or tag that does not clash with the existing ones
+export function importedName(name: string, taken: (candidate: string) => boolean): string {
+  let candidate = `imported-${name}`;
+  for (let i = 2; taken(candidate); i++) {
+    candidate = `imported-${name}-${i}`;
+  }
+  return candidate;
+}
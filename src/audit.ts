@@ -0,0 +1,197 @@
+import { isObject } from './contentTypes';
+import { BadRequestError } from './errors';
+import { parseIntegerParam } from './requests';
+import { AuditAction, AuditChange, AuditEntry, AuditPage, AuditQuery, AuditRequestInfo, AuditTarget, AuditVerification } from './types';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'version.create',
+  'version.revert',
+  'version.merge',
+  'version.archive',
+  'version.restore',
+  'version.delete',
+  'version.publish',
+  'version.unpublish',
+  'version.submit',
+  'version.approve',
+  'version.reject',
+  'version.preview',
+  'tag.create',
+  'tag.rename',
+  'tag.delete',
+  'branch.create',
+  'branch.delete',
+  'schedule.create',
+  'schedule.cancel',
+  'webhook.create',
+  'webhook.delete',
+  'settings.review',
+  'settings.content-type',
+  'channel.promote',
+  'channel.delete',
+  'document.compact',
+  'document.import',
+  'document.create',
+  'document.update',
+  'document.delete',
+  'token.create'
+];
+
+const AUDIT_TARGET_TYPES: AuditTarget['type'][] = ['document', 'version', 'tag', 'branch', 'channel', 'schedule', 'webhook', 'settings', 'token'];
+
+// previousHash of the first entry of a log
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Documents and the registry both keep their log under audit:<id> in their own storage, with the id
+// zero padded so that list() returns the entries in order
+const AUDIT_PREFIX = 'audit:';
+
+const DEFAULT_AUDIT_PAGE_SIZE = 50;
+const MAX_AUDIT_PAGE_SIZE = 500;
+
+const encoder = new TextEncoder();
+
+// JSON with object keys sorted, so that an entry hashes the same however its keys were ordered
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => isObject(item)
+    ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+    : item);
+}
+
+// Hex SHA-256 of an entry without its hash. The previous hash is part of it, which chains the entries.
+export async function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(canonicalJson(entry)));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// The entry that follows `previous` in a log. Changes made by a request carry its metadata, scheduled
+// ones only the user who scheduled them.
+export async function chainAuditEntry(
+  previous: AuditEntry | undefined,
+  actor: { sub: string; role?: string },
+  change: AuditChange,
+  request?: Request
+): Promise<AuditEntry> {
+  const entry: Omit<AuditEntry, 'hash'> = {
+    id: (previous?.id || 0) + 1,
+    timestamp: new Date().toISOString(),
+    actor: actor.sub,
+    role: actor.role,
+    ...change,
+    request: request ? auditRequestInfo(request) : undefined,
+    previousHash: previous?.hash || GENESIS_HASH
+  };
+  return { ...entry, hash: await hashAuditEntry(entry) };
+}
+
+function auditKey(id: number): string {
+  return `${AUDIT_PREFIX}${String(id).padStart(10, '0')}`;
+}
+
+// Append a change to the log in a Durable Object's storage, chained to the entry before it
+export async function appendAuditEntry(
+  state: DurableObjectState,
+  actor: { sub: string; role?: string },
+  change: AuditChange,
+  request?: Request
+): Promise<AuditEntry> {
+  // Hashing yields to other requests, which must not chain onto the same previous entry
+  return state.blockConcurrencyWhile(async () => {
+    const [previous] = (await state.storage.list<AuditEntry>({ prefix: AUDIT_PREFIX, reverse: true, limit: 1 })).values();
+    const entry = await chainAuditEntry(previous, actor, change, request);
+    await state.storage.put(auditKey(entry.id), entry);
+    return entry;
+  });
+}
+
+// The whole log, oldest entry first
+export async function listAuditEntries(storage: DurableObjectStorage): Promise<AuditEntry[]> {
+  return [...(await storage.list<AuditEntry>({ prefix: AUDIT_PREFIX })).values()];
+}
+
+// Recompute the chain over a whole log, oldest entry first, and report the first entry that does not fit
+export async function verifyAuditChain(entries: AuditEntry[]): Promise<AuditVerification> {
+  let previousHash = GENESIS_HASH;
+  for (const entry of entries) {
+    const { hash, ...rest } = entry;
+    if (entry.previousHash !== previousHash || await hashAuditEntry(rest) !== hash) {
+      return { valid: false, entries: entries.length, brokenAt: entry.id };
+    }
+    previousHash = hash;
+  }
+  return { valid: true, entries: entries.length };
+}
+
+// Request metadata kept with an entry. The worker forwards the client's headers to the Durable Object.
+export function auditRequestInfo(request: Request): AuditRequestInfo {
+  const url = new URL(request.url);
+  return {
+    method: request.method,
+    path: url.pathname,
+    ip: request.headers.get('CF-Connecting-IP') || undefined,
+    userAgent: request.headers.get('User-Agent') || undefined,
+    rayId: request.headers.get('CF-Ray') || undefined
+  };
+}
+
+// Read the audit log filters from the query string
+export function parseAuditQuery(params: URLSearchParams): AuditQuery {
+  const limit = parseIntegerParam(params, 'limit', 1, "limit must be a positive integer") ?? DEFAULT_AUDIT_PAGE_SIZE;
+  const before = parseIntegerParam(params, 'before', 1, "before must be an audit entry id");
+
+  // action=version.delete,tag.delete
+  const actions = params.get('action')?.split(',').filter(Boolean) as AuditAction[] | undefined;
+  if (actions?.some(action => !AUDIT_ACTIONS.includes(action))) {
+    throw new BadRequestError(`action must be one of: ${AUDIT_ACTIONS.join(', ')}`);
+  }
+
+  const targetType = params.get('targetType') || undefined;
+  if (targetType && !AUDIT_TARGET_TYPES.includes(targetType as AuditTarget['type'])) {
+    throw new BadRequestError(`targetType must be one of: ${AUDIT_TARGET_TYPES.join(', ')}`);
+  }
+
+  for (const bound of ['from', 'to']) {
+    const value = params.get(bound);
+    if (value && Number.isNaN(Date.parse(value))) {
+      throw new BadRequestError(`${bound} must be an ISO 8601 timestamp`);
+    }
+  }
+
+  return {
+    actor: params.get('actor') || undefined,
+    actions,
+    targetType: targetType as AuditTarget['type'] | undefined,
+    targetId: params.get('targetId') || undefined,
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+    limit: Math.min(limit, MAX_AUDIT_PAGE_SIZE),
+    before
+  };
+}
+
+// Entries of a whole log that match the query, newest first
+export function auditPage(entries: AuditEntry[], query: AuditQuery): AuditPage {
+  const matching = entries.filter(entry => matchesAuditQuery(entry, query)).reverse();
+  const items = matching.slice(0, query.limit);
+  return {
+    items,
+    nextCursor: matching.length > query.limit ? items[items.length - 1].id : null,
+    total: matching.length
+  };
+}
+
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  const time = Date.parse(entry.timestamp);
+  return (!query.actor || entry.actor === query.actor)
+    && (!query.actions || query.actions.includes(entry.action))
+    && (!query.targetType || entry.target.type === query.targetType)
+    && (!query.targetId || entry.target.id === query.targetId)
+    && (!query.from || time >= Date.parse(query.from))
+    && (!query.to || time <= Date.parse(query.to))
+    && (!query.before || entry.id < query.before);
+}
+
+// One JSON entry per line
+export function toNdjson(entries: AuditEntry[]): string {
+  return entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+}
@@ -0,0 +1,142 @@
+import { ForbiddenError, HttpError, UnauthorizedError } from './errors';
+
+// Roles are ordered: each role can do everything the roles before it can
+export const ROLES = ['viewer', 'editor', 'publisher', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+// Admins mint tokens for other users with POST /auth/tokens
+export interface CreateTokenRequest {
+  sub: string;
+  role: Role;
+  name?: string;
+  expiresIn?: number;
+}
+
+// Verified caller, taken from the claims of the bearer token
+export interface Identity {
+  sub: string;
+  role: Role;
+  name?: string;
+}
+
+interface TokenClaims extends Identity {
+  iat: number;
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+async function getKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+export function hasRole(identity: Identity, required: Role): boolean {
+  return ROLES.indexOf(identity.role) >= ROLES.indexOf(required);
+}
+
+// Sign an HS256 JWT for the given identity
+export async function signToken(identity: Identity, secret: string, expiresInSeconds: number = 3600): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: TokenClaims = { ...identity, iat: now, exp: now + expiresInSeconds };
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await getKey(secret), encoder.encode(`${header}.${payload}`));
+  return `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// Check the signature and expiry of an HS256 JWT and return the identity it carries
+export async function verifyToken(token: string, secret: string): Promise<Identity> {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    throw new UnauthorizedError("Malformed token");
+  }
+
+  let claims: TokenClaims;
+  try {
+    const { alg } = JSON.parse(new TextDecoder().decode(base64UrlDecode(header)));
+    if (alg !== 'HS256') {
+      throw new UnauthorizedError("Unsupported token algorithm");
+    }
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getKey(secret),
+      base64UrlDecode(signature),
+      encoder.encode(`${header}.${payload}`)
+    );
+    if (!valid) {
+      throw new UnauthorizedError("Invalid token signature");
+    }
+    claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)));
+  } catch (err) {
+    if (err instanceof HttpError) {
+      throw err;
+    }
+    throw new UnauthorizedError("Malformed token");
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+    throw new UnauthorizedError("Token expired");
+  }
+  if (!claims.sub || !ROLES.includes(claims.role)) {
+    throw new UnauthorizedError("Token is missing a subject or a valid role");
+  }
+  return { sub: claims.sub, role: claims.role, name: claims.name };
+}
+
+// Verify the bearer token of a request and check that its role is at least `required`
+export async function authorize(request: Request, secret: string | undefined, required: Role): Promise<Identity> {
+  if (!secret) {
+    throw new HttpError(500, "AUTH_SECRET is not configured");
+  }
+  const header = request.headers.get('Authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    throw new UnauthorizedError("Missing bearer token");
+  }
+
+  const identity = await verifyToken(match[1].trim(), secret);
+  if (!hasRole(identity, required)) {
+    throw new ForbiddenError(`Requires the ${required} role`);
+  }
+  return identity;
+}
+
+// Preview links: a signature over the document, version and expiry lets whoever holds the link read
+// that one version until it expires, without a token. The prefix keeps these signatures apart from tokens.
+function previewPayload(documentId: string, versionId: number, expires: number): Uint8Array {
+  return encoder.encode(`preview:${documentId}:${versionId}:${expires}`);
+}
+
+// expires is in seconds since the epoch, like the exp claim of tokens
+export async function signPreview(documentId: string, versionId: number, expires: number, secret: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await getKey(secret), previewPayload(documentId, versionId, expires));
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+export async function verifyPreview(documentId: string, versionId: number, expires: number, signature: string, secret: string): Promise<void> {
+  let valid = false;
+  try {
+    valid = await crypto.subtle.verify('HMAC', await getKey(secret), base64UrlDecode(signature), previewPayload(documentId, versionId, expires));
+  } catch {
+    // a signature that is not base64url is invalid too
+  }
+  if (!valid) {
+    throw new ForbiddenError("Invalid preview link");
+  }
+  if (expires * 1000 < Date.now()) {
+    throw new ForbiddenError("Preview link expired");
+  }
+}
@@ -0,0 +1,93 @@
+import { DEFAULT_CHANNEL } from './contentStore';
+import { matchesIfNoneMatch } from './etag';
+
+// Seconds a public page stays in the edge cache. Changes purge it right away, but only in the data center
+// that made them: other locations show them after this.
+export const DEFAULT_CACHE_TTL = 60;
+
+// Browsers and CDNs in front of the worker revalidate on every request, which the ETag makes cheap
+const PUBLIC_CACHE_CONTROL = 'public, max-age=0, must-revalidate';
+
+// The public routes that are cached: the HTML view and the published content as JSON
+export type PublicRoute = 'view' | 'content';
+
+const encoder = new TextEncoder();
+
+export function cacheTtl(value: string | undefined): number {
+  const ttl = Number(value);
+  return value !== undefined && Number.isInteger(ttl) && ttl >= 0 ? ttl : DEFAULT_CACHE_TTL;
+}
+
+// Cache key of a public route. "/" shares the key of /view/default, and production needs no ?channel=.
+export function publicCacheKey(origin: string, route: PublicRoute, documentId: string, channel: string = DEFAULT_CHANNEL): string {
+  const query = channel === DEFAULT_CHANNEL ? '' : `?channel=${encodeURIComponent(channel)}`;
+  return `${origin}/${route}/${documentId}${query}`;
+}
+
+// Strong entity tag from the hex SHA-256 of a body, so any change to what is served changes the tag
+async function bodyETag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(body));
+  return `"${[...new Uint8Array(digest)].slice(0, 16).map(byte => byte.toString(16).padStart(2, '0')).join('')}"`;
+}
+
+// Whether a conditional GET can be answered with 304. If-None-Match takes precedence over
+// If-Modified-Since, as in RFC 9110.
+function isNotModified(request: Request, etag: string | null, lastModified: string | null): boolean {
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  if (ifNoneMatch) {
+    return etag !== null && matchesIfNoneMatch(ifNoneMatch, etag);
+  }
+  const since = Date.parse(request.headers.get('If-Modified-Since') || '');
+  return lastModified !== null && !Number.isNaN(since) && Date.parse(lastModified) <= since;
+}
+
+// Serve a public route from the edge cache, rendering and storing it on a miss. Only 200s are stored.
+// Responses get an ETag from their body and answer conditional GETs with 304.
+export async function serveCached(
+  request: Request,
+  key: string,
+  ttl: number,
+  ctx: ExecutionContext,
+  render: () => Promise<Response>
+): Promise<Response> {
+  const cache = caches.default;
+  let response = ttl > 0 ? await cache.match(key) : undefined;
+  const status = response ? 'HIT' : 'MISS';
+
+  if (!response) {
+    const rendered = await render();
+    if (rendered.status !== 200) {
+      return rendered;
+    }
+    const body = await rendered.text();
+    response = new Response(body, rendered);
+    response.headers.set('ETag', await bodyETag(body));
+    if (ttl > 0) {
+      const stored = response.clone();
+      stored.headers.set('Cache-Control', `public, max-age=${ttl}`);
+      ctx.waitUntil(cache.put(key, stored));
+    }
+  }
+
+  const headers = new Headers(response.headers);
+  headers.set('Cache-Control', PUBLIC_CACHE_CONTROL);
+  headers.set('X-Cache', status);
+  if (isNotModified(request, headers.get('ETag'), headers.get('Last-Modified'))) {
+    // A 304 carries the validators and caching headers of the 200 it stands for, not its body
+    headers.delete('Content-Type');
+    headers.delete('Content-Length');
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(response.body, { status: response.status, headers });
+}
+
+// Drop the cached public routes of a document on the given channels
+export async function purgePublished(origin: string, documentId: string, channels: string[]): Promise<void> {
+  const cache = caches.default;
+  const routes: PublicRoute[] = ['view', 'content'];
+  await Promise.all(
+    [...new Set([DEFAULT_CHANNEL, ...channels])].flatMap(channel =>
+      routes.map(route => cache.delete(publicCacheKey(origin, route, documentId, channel)))
+    )
+  );
+}
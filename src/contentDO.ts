@@ -1,116 +1,512 @@
 import { createPatch } from 'diff';
+import { ARCHIVE_FORMAT, ARCHIVE_FORMAT_VERSION, IMPORT_MODES, archiveLine, importedName, parseArchive } from './archive';
+import { appendAuditEntry, auditPage, matchesAuditQuery, parseAuditQuery, toNdjson, verifyAuditChain } from './audit';
+import { Identity, Role, authorize, hasRole, signPreview } from './auth';
+import { purgePublished } from './cache';
+import { CONTENT_TYPES, assertValidSchema, diffJson, hasOwn, validateContent } from './contentTypes';
+import { BadRequestError, ConflictError, ContentValidationError, ForbiddenError, NotFoundError, errorResponse } from './errors';
+import { formatETag, matchesIfNoneMatch, parseIfMatchVersion } from './etag';
+import { ContentStore, DEFAULT_BRANCH, DEFAULT_CHANNEL, toSummary } from './contentStore';
+import { PATCH_FORMATS, applyVersionPatch } from './patches';
+import { parseBody, parseIntegerParam } from './requests';
+import { MAX_DELIVERY_ATTEMPTS, MAX_DELIVERY_LOG, parseWebhookRequest, retryDelay, sendDelivery, subscribesTo, toWebhookView } from './webhooks';
+import { SEARCH_FIELDS, buildSnippet, fieldTerm, findMatches, indexTerms, parseSearchQuery } from './search';
+import { DIFF_MODES, calculateDetailedDiff, calculateInlineDiff, mergeThreeWay, renderBlameHtml, renderInlineDiffHtml, splitLines, traceLines } from './diff';
 import { 
+  ArchiveRecord,
+  ArchivedVersion,
+  AuditChange,
+  AuditEntry,
+  AuditPage,
+  AuditQuery,
+  AuditVerification,
+  BlameResult,
+  Channel,
+  CompactionReport,
   ContentDiff, 
-  ContentState, 
+  ContentTypeSettings,
+  ContentValidation,
+  DocumentMeta, 
+  FeedMessage,
+  FeedRequest,
+  ImportMode,
+  ImportReport,
   Version, 
   PublishRecord, 
+  PublishedVersion,
   VersionStatus, 
   Tag, 
   CreateVersionRequest,
-  PublishVersionRequest,
-  CreateTagRequest,
-  UpdateTagRequest,
-  RevertVersionRequest } from './types';
+  DiffMode,
+  InlineDiff,
+  PageSettings,
+  PreviewLink,
+  Branch,
+  MergeResult,
+  ReviewSettings,
+  Schedule,
+  SearchField,
+  SearchMatch,
+  SearchQuery,
+  SearchResponse,
+  SearchResult,
+  CreateScheduleRequest,
+  CreatePreviewRequest,
+  CreateWebhookRequest,
+  VersionListItem,
+  VersionPage,
+  VersionQuery,
+  Webhook,
+  WebhookDelivery,
+  ChangeEvent,
+  ChangeEventType,
+  WebhookView } from './types';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const DEFAULT_SEARCH_LIMIT = 20;
+// Change events kept for clients resuming the feed
+const MAX_EVENT_LOG = 1000;
+// Versions whose content is rebuilt at a time while an export streams
+const EXPORT_BATCH_SIZE = 50;
+// Preview links last a day unless asked otherwise, and a month at most
+const DEFAULT_PREVIEW_TTL = 24 * 3600;
+const MAX_PREVIEW_TTL = 30 * 24 * 3600;
+// Channel names end up in URLs and query strings
+const CHANNEL_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+function assertChannelName(name: string): void {
+  if (typeof name !== 'string' || !CHANNEL_NAME_PATTERN.test(name)) {
+    throw new BadRequestError("channel must be a lowercase name of letters, digits, - and _");
+  }
+}
+
+// Head of the main branch: the version the document ETag carries and publishing is checked against
+function mainHead(meta: DocumentMeta): number {
+  return meta.branches[DEFAULT_BRANCH]?.head || 0;
+}
+
+// Branch a request names with ?branch=. Its head goes into the ETag instead of main's, and version
+// writes without a branch in the body are made on it.
+function branchParam(request: Request): string | undefined {
+  return new URL(request.url).searchParams.get('branch') || undefined;
+}
+
+// Version id from a path segment or query parameter. parseInt would read "abc" as NaN and "2x" as 2.
+function parseVersionId(value: string): number {
+  if (!/^[1-9][0-9]*$/.test(value)) {
+    throw new BadRequestError(`${value} is not a valid version id`);
+  }
+  return Number(value);
+}
+
+// Cursors point just after the last item of a page: its sort key and id, base64 encoded
+function encodeCursor(key: string | number, id: number): string {
+  return btoa(JSON.stringify([key, id]));
+}
+
+function decodeCursor(cursor: string): [string | number, number] {
+  try {
+    const [key, id] = JSON.parse(atob(cursor));
+    if ((typeof key === 'string' || typeof key === 'number') && typeof id === 'number') {
+      return [key, id];
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new BadRequestError("Invalid cursor");
+}
+
+// Read the version listing options from the query string
+function parseVersionQuery(params: URLSearchParams): VersionQuery {
+  const limit = parseIntegerParam(params, 'limit', 1, "limit must be a positive integer") ?? DEFAULT_PAGE_SIZE;
+
+  const statuses = params.get('status')?.split(',').filter(Boolean) as VersionStatus[] | undefined;
+  const validStatuses = Object.values(VersionStatus) as string[];
+  if (statuses?.some(status => !validStatuses.includes(status))) {
+    throw new BadRequestError(`status must be one of: ${validStatuses.join(', ')}`);
+  }
+
+  // sort=timestamp or sort=-timestamp for descending
+  const sortParam = params.get('sort') || 'id';
+  const sort = sortParam.replace(/^-/, '');
+  if (sort !== 'id' && sort !== 'timestamp') {
+    throw new BadRequestError("sort must be id or timestamp, prefixed with - for descending order");
+  }
+
+  const view = params.get('view') || 'summary';
+  if (view !== 'summary' && view !== 'full') {
+    throw new BadRequestError("view must be summary or full");
+  }
+
+  for (const bound of ['from', 'to']) {
+    const value = params.get(bound);
+    if (value && Number.isNaN(Date.parse(value))) {
+      throw new BadRequestError(`${bound} must be an ISO 8601 timestamp`);
+    }
+  }
+
+  return {
+    limit: Math.min(limit, MAX_PAGE_SIZE),
+    cursor: params.get('cursor') || undefined,
+    statuses,
+    tag: params.get('tag') || undefined,
+    author: params.get('author') || undefined,
+    branch: params.get('branch') || undefined,
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+    sort,
+    order: sortParam.startsWith('-') ? 'desc' : 'asc',
+    view,
+    includeArchived: params.get('includeArchived') === 'true'
+  };
+}
+
+// Read the search options from the query string
+function parseSearchParams(params: URLSearchParams): SearchQuery {
+  const q = params.get('q') || '';
+  if (!q.trim()) {
+    throw new BadRequestError("q is required");
+  }
+
+  const limit = parseIntegerParam(params, 'limit', 1, "limit must be a positive integer") ?? DEFAULT_SEARCH_LIMIT;
+
+  // in=content, in=message or both (the default)
+  const scope = params.get('in') || 'all';
+  if (scope !== 'all' && !SEARCH_FIELDS.includes(scope as SearchField)) {
+    throw new BadRequestError(`in must be all, ${SEARCH_FIELDS.join(' or ')}`);
+  }
+
+  return {
+    q,
+    fields: scope === 'all' ? SEARCH_FIELDS : [scope as SearchField],
+    limit: Math.min(limit, MAX_PAGE_SIZE),
+    branch: params.get('branch') || undefined,
+    includeArchived: params.get('includeArchived') === 'true'
+  };
+}
 
 // Note that the name of the class have to match the name of the Durable Object defined in the wrangler.toml file.
 export class ContentDO {
   private state: DurableObjectState;
-  private env: any;
+  private env: Env;
+  private store: ContentStore;
 
-  constructor(state: DurableObjectState, env: any) {
+  constructor(state: DurableObjectState, env: Env) {
     this.state = state;
     this.env = env;
+    this.store = new ContentStore(state.storage);
   }
+
   // TODO: Core Version Control Functions
 
-  // Initialize or get existing state from Durable Objects storage
-private async initialize(): Promise<ContentState> {
-    // Get existing state from Durable Objects storage
-    const stored = await this.state.storage.get<ContentState>("content");
-    if (!stored) {
-      // Initialize the state if not existed
-      const initialData: ContentState = {
-        currentVersion: 0,
-        versions: [],
-        tags: {},
-        content: null,
-        publishHistory: []
-      };
-      await this.state.storage.put("content", initialData);
-      return initialData;
+  // Reject a write whose expected base version is no longer the head it is applied to
+  private async assertBaseVersion(expected: number | undefined, head: number): Promise<void> {
+    if (expected === undefined || expected === head) {
+      return;
     }
-    return stored;
+    throw new ConflictError("Version conflict", {
+      expectedVersion: expected,
+      currentVersion: head,
+      head: (await this.store.getVersion(head)) || null
+    });
   }
-  
-  // Calculate next version ID based on existing versions
-  private getNextVersionId(data: ContentState): number {
-    return data.versions.length > 0 
-      ? Math.max(...data.versions.map(v => v.id)) + 1 
-      : 1;
+
+  // Get a branch or fail when it does not exist
+  private getBranch(meta: DocumentMeta, name: string): Branch {
+    const branch = meta.branches[name];
+    if (!branch) {
+      throw new NotFoundError("Branch not found");
+    }
+    return branch;
+  }
+
+  // Store a version on top of its branch and move the branch head to it
+  private async commitVersion(meta: DocumentMeta, version: Version): Promise<void> {
+    await this.store.putVersion(version);
+    await this.store.addToIndex(version.id, indexTerms(version));
+    meta.branches[version.branch] = {
+      ...meta.branches[version.branch],
+      head: version.id,
+      updatedAt: version.timestamp
+    };
+    await this.store.saveMeta(meta);
   }
   
   // Create a new version with the provided content and message
-  async createVersion(content: string, message: string = ""): Promise<Version> {
-    const data = await this.initialize();
+  // Pass the version the client last saw as baseVersion to reject writes on top of a newer head
+  async createVersion(
+    content: string,
+    message: string = "",
+    branchName: string = DEFAULT_BRANCH,
+    baseVersion?: number,
+    author?: string
+  ): Promise<Version> {
+    const meta = await this.store.getMeta();
+    const branch = this.getBranch(meta, branchName);
+    await this.assertBaseVersion(baseVersion, branch.head);
+    const parent = await this.store.getVersion(branch.head);
       
     const newVersion: Version = {
-      id: this.getNextVersionId(data),
+      id: meta.nextVersionId++,
       content,
       timestamp: new Date().toISOString(),
       message,
       status: VersionStatus.DRAFT,
-      diff: data.content ? this.calculateDetailedDiff(data.content, content) : undefined
+      diff: parent ? calculateDetailedDiff(parent.content, content) : undefined,
+      parents: parent ? [parent.id] : [],
+      branch: branchName,
+      author
     };
   
-    data.versions.push(newVersion);
-    data.currentVersion = newVersion.id;
-    data.content = content;
-  
-    await this.state.storage.put("content", data);
+    await this.commitVersion(meta, newVersion);
+    await this.emitEvent('version.created', { version: toSummary(newVersion) });
     return newVersion;
   }
   
-  // Get all versions
-  async getVersions(): Promise<Version[]> {
-    const data = await this.initialize();
-    return data.versions;
+  // Content of a new version: sent in full, or as a patch applied to the base version it was
+  // written against. The base must still be the head, createVersion rejects it otherwise.
+  private async resolveContent(body: CreateVersionRequest, baseVersion?: number): Promise<string> {
+    if (body.patch === undefined) {
+      if (typeof body.content !== 'string') {
+        throw new BadRequestError("content or patch is required");
+      }
+      return body.content;
+    }
+    if (body.content !== undefined) {
+      throw new BadRequestError("Send either content or patch, not both");
+    }
+    const format = body.patchFormat || 'unified';
+    if (!PATCH_FORMATS.includes(format)) {
+      throw new BadRequestError(`patchFormat must be one of: ${PATCH_FORMATS.join(', ')}`);
+    }
+    if (baseVersion === undefined) {
+      throw new BadRequestError("A patch needs the version it applies to, as baseVersion or an If-Match header");
+    }
+    const base = await this.store.getVersion(baseVersion);
+    if (!base) {
+      throw new NotFoundError("Version not found");
+    }
+    return applyVersionPatch(base.content, format, body.patch, baseVersion);
+  }
+  
+  // List versions one page at a time, filtered and sorted as the query asks.
+  // Filtering runs on the summaries, content is only read for the page when the full view is asked for.
+  async listVersions(query: VersionQuery): Promise<VersionPage<Version | VersionListItem>> {
+    const summaries = await this.store.listSummaries();
+    const taggedIds = query.tag
+      ? new Set(Object.values(await this.store.getTags()).filter(t => t.name === query.tag).map(t => t.versionId))
+      : null;
+    const from = query.from ? Date.parse(query.from) : null;
+    const to = query.to ? Date.parse(query.to) : null;
+    // Archived versions are hidden unless asked for, explicitly or through the status filter
+    const showArchived = query.includeArchived || !!query.statuses?.includes(VersionStatus.ARCHIVED);
+
+    const sortKey = (v: VersionListItem): string | number => query.sort === 'timestamp' ? v.timestamp : v.id;
+    const direction = query.order === 'desc' ? -1 : 1;
+    const compare = (aKey: string | number, aId: number, bKey: string | number, bId: number): number => {
+      if (aKey !== bKey) {
+        return (aKey < bKey ? -1 : 1) * direction;
+      }
+      return (aId - bId) * direction;
+    };
+
+    const matching = summaries
+      .filter(v => showArchived || v.status !== VersionStatus.ARCHIVED)
+      .filter(v => !query.statuses || query.statuses.includes(v.status))
+      .filter(v => !taggedIds || taggedIds.has(v.id))
+      .filter(v => !query.author || v.author === query.author)
+      .filter(v => !query.branch || v.branch === query.branch)
+      .filter(v => from === null || Date.parse(v.timestamp) >= from)
+      .filter(v => to === null || Date.parse(v.timestamp) <= to)
+      .sort((a, b) => compare(sortKey(a), a.id, sortKey(b), b.id));
+
+    let start = 0;
+    if (query.cursor) {
+      const [cursorKey, cursorId] = decodeCursor(query.cursor);
+      start = matching.findIndex(v => compare(sortKey(v), v.id, cursorKey, cursorId) > 0);
+      if (start === -1) {
+        start = matching.length;
+      }
+    }
+
+    const page = matching.slice(start, start + query.limit);
+    const last = page[page.length - 1];
+    const hasMore = start + page.length < matching.length;
+
+    return {
+      items: query.view === 'full' ? await this.store.getVersions(page) : page,
+      nextCursor: hasMore && last ? encodeCursor(sortKey(last), last.id) : null,
+      total: matching.length
+    };
+  }
+
+  // Archived versions are read-only: they can be restored or deleted, nothing else
+  private assertNotArchived(version: VersionListItem, action: string): void {
+    if (version.status === VersionStatus.ARCHIVED) {
+      throw new ConflictError(`Cannot ${action} an archived version, restore it first`);
+    }
+  }
+
+  // Archive a version so it is hidden from listings and protected from changes
+  async archiveVersion(id: number): Promise<Version> {
+    const version = await this.store.getVersion(id);
+    if (!version) {
+      throw new NotFoundError("Version not found");
+    }
+    if (version.status === VersionStatus.PUBLISHED) {
+      throw new ConflictError("Cannot archive a published version, unpublish it first");
+    }
+    await this.assertNotOnChannel(id, 'archive');
+    if (version.status === VersionStatus.ARCHIVED) {
+      return version;
+    }
+
+    version.status = VersionStatus.ARCHIVED;
+    await this.store.putSummaries([version]);
+    await this.store.touch();
+    return version;
+  }
+
+  // Bring an archived version back as a draft
+  async restoreVersion(id: number): Promise<Version> {
+    const version = await this.store.getVersion(id);
+    if (!version) {
+      throw new NotFoundError("Version not found");
+    }
+    if (version.status !== VersionStatus.ARCHIVED) {
+      throw new ConflictError("Version is not archived");
+    }
+
+    version.status = VersionStatus.DRAFT;
+    await this.store.putSummaries([version]);
+    await this.store.touch();
+    return version;
   }
   
   // Get a specific version by ID
   async getVersion(id: number): Promise<Version | null> {
-    const data = await this.initialize();
-    return data.versions.find(v => v.id === id) || null;
+    return (await this.store.getVersion(id)) || null;
+  }
+  
+  // Find the versions whose content or message contain every word and phrase of the query, newest first.
+  // The index narrows the candidates down to versions holding all the words, phrases are then checked
+  // against the text itself.
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    const meta = await this.store.getMeta();
+    if (!meta.searchIndexed) {
+      await this.rebuildSearchIndex(meta);
+    }
+
+    const parts = parseSearchQuery(query.q);
+    const words = [...new Set(parts.flat())];
+    const candidates = new Map<SearchField, Set<number>>();
+    for (const field of query.fields) {
+      const postings = await this.store.getPostings(words.map(word => fieldTerm(field, word)));
+      const lists = words.map(word => postings.get(fieldTerm(field, word)) || []);
+      candidates.set(field, new Set(lists.reduce((ids, list) => ids.filter(id => list.includes(id)))));
+    }
+
+    const summaries = (await this.store.listSummaries())
+      .filter(v => [...candidates.values()].some(ids => ids.has(v.id)))
+      .filter(v => query.includeArchived || v.status !== VersionStatus.ARCHIVED)
+      .filter(v => !query.branch || v.branch === query.branch)
+      .reverse();
+
+    // Rebuilt together so that versions sharing patches are only rebuilt once
+    const contents = new Map((await this.store.getVersions(summaries.filter(v => candidates.get('content')?.has(v.id))))
+      .map(v => [v.id, v.content]));
+
+    const results: SearchResult[] = [];
+    for (const summary of summaries) {
+      const matches: SearchMatch[] = [];
+      for (const field of query.fields) {
+        if (!candidates.get(field)?.has(summary.id)) {
+          continue;
+        }
+        const text = field === 'message' ? summary.message : contents.get(summary.id) || '';
+        const ranges = findMatches(text, parts);
+        if (ranges) {
+          matches.push({ field, snippet: buildSnippet(text, ranges), occurrences: ranges.length });
+        }
+      }
+      if (matches.length > 0) {
+        results.push({
+          versionId: summary.id,
+          message: summary.message,
+          timestamp: summary.timestamp,
+          branch: summary.branch,
+          status: summary.status,
+          matches
+        });
+      }
+    }
+
+    return {
+      query: query.q,
+      total: results.length,
+      results: results.slice(0, query.limit)
+    };
+  }
+
+  // Index every version of a document that was created before search existed
+  private async rebuildSearchIndex(meta: DocumentMeta): Promise<void> {
+    const versions = await this.store.getVersions(await this.store.listSummaries());
+    await this.store.rebuildIndex(new Map(versions.map(v => [v.id, indexTerms(v)])));
+    meta.searchIndexed = true;
+    await this.store.saveMeta(meta);
   }
   
   // Delete a specific version by ID
   async deleteVersion(id: number): Promise<{ success: boolean }> {
-    const data = await this.initialize();
-      
-    const versionIndex = data.versions.findIndex(v => v.id === id);
-    if (versionIndex === -1) {
-      throw new Error("Version not found");
+    const meta = await this.store.getMeta();
+    const version = await this.store.getVersion(id);
+    if (!version) {
+      throw new NotFoundError("Version not found");
     }
-  
-    const version = data.versions[versionIndex];
     if (version.status === VersionStatus.PUBLISHED) {
-      throw new Error("Cannot delete published version");
+      throw new ConflictError("Cannot delete published version");
     }
+    await this.assertNotOnChannel(id, 'delete');
   
-    data.versions.splice(versionIndex, 1);
+    // Keep the history connected: children of the deleted version now descend from its parents,
+    // and a branch whose head was deleted falls back to the first parent
+    const children = (await this.store.listSummaries()).filter(v => v.parents.includes(id));
+    // Children stored as patches against the deleted version get a new diff against their new first parent
+    const rebased = await this.store.getVersions(children.filter(v => v.parents[0] === id));
+    const reparent = (v: VersionListItem): number[] => [...new Set(v.parents.flatMap(p => p === id ? version.parents : [p]))];
+    for (const child of [...children, ...rebased]) {
+      child.parents = reparent(child);
+    }
+    for (const child of rebased) {
+      const parent = child.parents[0] ? await this.store.getVersion(child.parents[0]) : undefined;
+      child.diff = parent ? calculateDetailedDiff(parent.content, child.content) : undefined;
+    }
+
+    await this.store.removeFromIndex(id, indexTerms(version));
+    await this.store.deleteVersion(id);
+    for (const child of rebased) {
+      await this.store.putVersion(child);
+    }
+    await this.store.putSummaries(children);
   
-    if (data.currentVersion === id) {
-      data.currentVersion = 0;
-      data.content = null;
+    for (const branchName in meta.branches) {
+      if (meta.branches[branchName].head === id) {
+        meta.branches[branchName].head = version.parents[0] || 0;
+      }
     }
   
     // Remove any tags associated with this version
-    for (const tagName in data.tags) {
-      if (data.tags[tagName].versionId === id) {
-        delete data.tags[tagName];
+    const tags = await this.store.getTags();
+    for (const tagName in tags) {
+      if (tags[tagName].versionId === id) {
+        delete tags[tagName];
       }
     }
+    await this.store.putTags(tags);
   
-    await this.state.storage.put("content", data);
+    await this.store.saveMeta(meta);
+    await this.emitEvent('version.deleted', { versionId: id });
     return {
       success: true
     };
@@ -118,191 +514,922 @@ private async initialize(): Promise<ContentState> {
   
   // TODO: Tag Management Functions
   async getTags(): Promise<Tag[]> {
-    const data = await this.initialize();
-    return Object.entries(data.tags).map(([_, tag]) => ({
+    const tags = await this.store.getTags();
+    return Object.values(tags).map(tag => ({
       ...tag
     }));
   }
   
   async getVersionTags(versionId: number): Promise<Tag[]> {
-    const data = await this.initialize();
-    return Object.entries(data.tags)
-      .filter(([_, tag]) => tag.versionId === versionId)
-      .map(([_, tag]) => ({
+    if (!(await this.store.getSummary(versionId))) {
+      throw new NotFoundError("Version not found");
+    }
+    const tags = await this.store.getTags();
+    return Object.values(tags)
+      .filter(tag => tag.versionId === versionId)
+      .map(tag => ({
         ...tag
       }));
   }
   
   async createTag(versionId: number, name: string): Promise<Tag> {
-    const data = await this.initialize();
-    if (data.tags[name]) {
-      throw new Error("Tag already exists");
+    const tags = await this.store.getTags();
+    if (tags[name]) {
+      throw new ConflictError("Tag already exists");
     }
   
-    const version = data.versions.find(v => v.id === versionId);
+    const version = await this.store.getSummary(versionId);
     if (!version) {
-      throw new Error("Version not found");
+      throw new NotFoundError("Version not found");
     }
+    this.assertNotArchived(version, 'tag');
   
     const tag: Tag = {
       name,
       versionId,
       createdAt: new Date().toISOString()
     };
-    data.tags[name] = tag;
-    await this.state.storage.put("content", data);
+    tags[name] = tag;
+    await this.store.putTags(tags);
+    await this.store.touch();
+    await this.emitEvent('tag.created', { tag });
     return tag;
   }
   
   async updateTag(name: string, newName: string): Promise<Tag> {
-    const data = await this.initialize();
+    const tags = await this.store.getTags();
     
-    if (!data.tags[name]) {
-      throw new Error("Tag not found");
+    if (!tags[name]) {
+      throw new NotFoundError("Tag not found");
     }
   
-    if (data.tags[newName]) {
-      throw new Error("New tag name already exists");
+    if (tags[newName]) {
+      throw new ConflictError("New tag name already exists");
     }
   
-    const tag = data.tags[name];
-    delete data.tags[name];
-    data.tags[newName] = {
+    const tag = tags[name];
+    delete tags[name];
+    tags[newName] = {
       ...tag,
-      name: newName
+      name: newName,
+      updatedAt: new Date().toISOString()
     };
   
-    await this.state.storage.put("content", data);
+    await this.store.putTags(tags);
+    await this.store.touch();
+    await this.emitEvent('tag.updated', { tag: tags[newName], previousName: name });
     return {
-      ...data.tags[newName],
+      ...tags[newName],
       name: newName
     };
   }
   
   async deleteTag(name: string): Promise<{ success: boolean; message: string }> {
-    const data = await this.initialize();
+    const tags = await this.store.getTags();
     
-    if (!data.tags[name]) {
-      throw new Error("Tag not found");
+    if (!tags[name]) {
+      throw new NotFoundError("Tag not found");
     }
   
-    delete data.tags[name];
-    await this.state.storage.put("content", data);
+    const { versionId } = tags[name];
+    delete tags[name];
+    await this.store.putTags(tags);
+    await this.store.touch();
+    await this.emitEvent('tag.deleted', { name, versionId });
   
     return {
       success: true,
       message: `Tag ${name} deleted successfully`
     };
   }
-  
-  // TODO: Publishing and unpublishing functions
-  async publishVersion(versionId: number, publishedBy: string): Promise<PublishRecord> {
-    const data = await this.initialize();
-    const version = data.versions.find(v => v.id === versionId);
+  
+  // TODO: Publishing and unpublishing functions
+  // Put a version live on a channel, production by default. Only production changes version statuses
+  // and only production requires approvals: the other channels are for trying versions out before that.
+  // The base version is checked against the head of main, the version the document ETag carries.
+  async publishVersion(
+    versionId: number,
+    publishedBy: string,
+    baseVersion?: number,
+    options: { scheduleId?: string; channel?: string; promotedFrom?: string } = {}
+  ): Promise<PublishRecord> {
+    const { scheduleId, channel = DEFAULT_CHANNEL, promotedFrom } = options;
+    assertChannelName(channel);
+    const meta = await this.store.getMeta();
+    await this.assertBaseVersion(baseVersion, mainHead(meta));
+    const version = await this.store.getSummary(versionId);
+    if (!version) {
+      throw new NotFoundError("Version not found");
+    }
+    this.assertNotArchived(version, 'publish');
+    const production = channel === DEFAULT_CHANNEL;
+    const { requiredApprovals } = meta.reviewSettings;
+    if (production && requiredApprovals > 0 && version.status !== VersionStatus.PUBLISHED) {
+      const approvals = this.countApprovals(version);
+      if (version.status !== VersionStatus.APPROVED || approvals < requiredApprovals) {
+        throw new ConflictError(`Version needs ${requiredApprovals} approval(s) before publishing, it has ${approvals}`);
+      }
+    }
+    const settings = this.getContentTypeSettings(meta);
+    const issues = validateContent((await this.store.getVersion(versionId))?.content || '', settings);
+    if (issues.length > 0) {
+      throw new ContentValidationError(`Version content is not valid ${settings.contentType}`, issues);
+    }
+  
+    const channels = await this.getChannels(meta);
+    if (production) {
+      // Only one version is live: the previously published one goes back to draft, the rest keep their status
+      const previouslyPublished = (await this.store.listSummaries())
+        .filter(v => v.status === VersionStatus.PUBLISHED && v.id !== versionId);
+      await this.store.putSummaries([
+        ...previouslyPublished.map(v => ({ ...v, status: VersionStatus.DRAFT })),
+        { ...version, status: VersionStatus.PUBLISHED }
+      ]);
+    }
+  
+    const publishRecord: PublishRecord = {
+      versionId,
+      publishedAt: new Date().toISOString(),
+      publishedBy,
+      channel,
+      ...(promotedFrom ? { promotedFrom } : {}),
+      ...(scheduleId ? { action: 'publish', scheduleId } : {})
+    };
+    await this.store.appendPublishRecord(meta, publishRecord);
+    channels[channel] = { name: channel, versionId, updatedAt: publishRecord.publishedAt, updatedBy: publishedBy };
+    await this.store.saveMeta(meta);
+    await this.emitEvent('version.published', { ...publishRecord });
+    return publishRecord;
+  }
+  
+  // Unpublish a version
+  // Only the version live on the channel can be unpublished, on production it goes back to draft
+  // Scheduled unpublishes leave a record in the publish history, manual ones only clear it
+  async unpublishVersion(versionId: number, unpublishedBy?: string, scheduleId?: string, channel: string = DEFAULT_CHANNEL): Promise<Version> {
+    const meta = await this.store.getMeta();
+    const version = await this.store.getVersion(versionId);
+    if (!version) {
+      throw new NotFoundError("Version not found");
+    }
+    this.assertNotArchived(version, 'unpublish');
+    const channels = await this.getChannels(meta);
+    if (channels[channel]?.versionId !== versionId) {
+      throw new ConflictError(`Version ${versionId} is not published on ${channel}`);
+    }
+    if (channel === DEFAULT_CHANNEL && version.status === VersionStatus.PUBLISHED) {
+      version.status = VersionStatus.DRAFT;
+      await this.store.putSummaries([version]);
+    }
+    channels[channel] = { ...channels[channel], versionId: 0, updatedAt: new Date().toISOString(), updatedBy: unpublishedBy };
+
+    await this.store.deletePublishRecords(versionId, channel);
+    if (scheduleId && unpublishedBy) {
+      await this.store.appendPublishRecord(meta, {
+        versionId,
+        publishedAt: new Date().toISOString(),
+        publishedBy: unpublishedBy,
+        action: 'unpublish',
+        scheduleId,
+        channel
+      });
+    }
+    await this.store.saveMeta(meta);
+    await this.emitEvent('version.unpublished', { versionId, unpublishedBy, scheduleId, channel });
+    return version;
+  }
+  
+  async getPublishHistory(channel?: string): Promise<PublishRecord[]> {
+    return this.store.getPublishHistory(channel);
+  }
+
+  // Preview links
+
+  // Mint a signed link to the HTML view of one version, published or not, that works without a token
+  // until it expires. The worker checks the signature and renders the version.
+  async createPreviewLink(request: CreatePreviewRequest, documentId: string, origin: string): Promise<PreviewLink> {
+    if ((request.versionId === undefined) === (request.tag === undefined)) {
+      throw new BadRequestError("Either versionId or tag is required");
+    }
+    const expiresIn = request.expiresIn ?? DEFAULT_PREVIEW_TTL;
+    if (!Number.isInteger(expiresIn) || expiresIn < 1 || expiresIn > MAX_PREVIEW_TTL) {
+      throw new BadRequestError(`expiresIn must be a number of seconds between 1 and ${MAX_PREVIEW_TTL}`);
+    }
+
+    let versionId = request.versionId;
+    if (request.tag !== undefined) {
+      const tag = (await this.store.getTags())[request.tag];
+      if (!tag) {
+        throw new NotFoundError(`Tag ${request.tag} not found`);
+      }
+      versionId = tag.versionId;
+    }
+    if (typeof versionId !== 'number' || !(await this.store.getSummary(versionId))) {
+      throw new NotFoundError("Version not found");
+    }
+
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const signature = await signPreview(documentId, versionId, expires, this.env.AUTH_SECRET);
+    return {
+      url: `${origin}/preview/${documentId}/${versionId}?expires=${expires}&signature=${signature}`,
+      documentId,
+      versionId,
+      ...(request.tag !== undefined ? { tag: request.tag } : {}),
+      expiresAt: new Date(expires * 1000).toISOString()
+    };
+  }
+
+  // Publish channels
+
+  // Channels of the document. Documents from before channels get a production channel pointing at
+  // their published version; callers that change the channels save the meta.
+  private async getChannels(meta: DocumentMeta): Promise<{ [name: string]: Channel }> {
+    if (!meta.channels) {
+      const published = (await this.store.listSummaries()).find(v => v.status === VersionStatus.PUBLISHED);
+      meta.channels = { [DEFAULT_CHANNEL]: { name: DEFAULT_CHANNEL, versionId: published?.id || 0 } };
+    }
+    return meta.channels;
+  }
+
+  private async assertNotOnChannel(versionId: number, action: string): Promise<void> {
+    const channels = await this.getChannels(await this.store.getMeta());
+    const serving = Object.values(channels).find(channel => channel.versionId === versionId);
+    if (serving) {
+      throw new ConflictError(`Cannot ${action} a version published on ${serving.name}, unpublish it first`);
+    }
+  }
+
+  async listChannels(): Promise<Channel[]> {
+    const channels = await this.getChannels(await this.store.getMeta());
+    return Object.values(channels).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getChannel(name: string): Promise<Channel> {
+    const channels = await this.getChannels(await this.store.getMeta());
+    if (!channels[name]) {
+      throw new NotFoundError(`Channel ${name} not found`);
+    }
+    return channels[name];
+  }
+
+  // Version live on a channel, with what the worker needs to serve and cache it
+  async getPublishedVersion(name: string = DEFAULT_CHANNEL): Promise<PublishedVersion> {
+    const meta = await this.store.getMeta();
+    const channel = (await this.getChannels(meta))[name];
+    if (!channel) {
+      throw new NotFoundError(`Channel ${name} not found`);
+    }
+    const version = channel.versionId ? await this.store.getVersion(channel.versionId) : undefined;
+    if (!version) {
+      throw new NotFoundError(`Nothing is published on ${name}`);
+    }
+    return {
+      channel: name,
+      publishedAt: channel.updatedAt,
+      contentType: this.getContentTypeSettings(meta).contentType,
+      page: meta.page,
+      version
+    };
+  }
+
+  // Publish the version of one channel on another, e.g. staging to production
+  async promoteChannel(to: string, from: string, promotedBy: string, baseVersion?: number): Promise<PublishRecord> {
+    const source = await this.getChannel(from);
+    if (from === to) {
+      throw new BadRequestError("A channel cannot be promoted to itself");
+    }
+    if (!source.versionId) {
+      throw new ConflictError(`Nothing is published on ${from}`);
+    }
+    return this.publishVersion(source.versionId, promotedBy, baseVersion, { channel: to, promotedFrom: from });
+  }
+
+  // Remove a channel and its publish history. Production always exists.
+  async deleteChannel(name: string): Promise<{ success: boolean; message: string }> {
+    if (name === DEFAULT_CHANNEL) {
+      throw new ConflictError(`The ${DEFAULT_CHANNEL} channel cannot be deleted`);
+    }
+    const meta = await this.store.getMeta();
+    const channels = await this.getChannels(meta);
+    if (!channels[name]) {
+      throw new NotFoundError(`Channel ${name} not found`);
+    }
+    for (const record of await this.store.getPublishHistory(name)) {
+      await this.store.deletePublishRecords(record.versionId, name);
+    }
+    delete channels[name];
+    await this.store.saveMeta(meta);
+    return {
+      success: true,
+      message: `Channel ${name} deleted successfully`
+    };
+  }
+  
+  // Scheduled publishing
+
+  async getSchedules(status?: string): Promise<Schedule[]> {
+    const schedules = await this.store.getSchedules();
+    return schedules
+      .filter(schedule => !status || schedule.status === status)
+      .sort((a, b) => a.runAt.localeCompare(b.runAt));
+  }
+
+  // The origin is the worker's, whose edge cache serves the public pages the schedule will change
+  async createSchedule(request: CreateScheduleRequest, createdBy: string, documentId: string, origin: string): Promise<Schedule> {
+    if (request.action !== 'publish' && request.action !== 'unpublish') {
+      throw new BadRequestError("action must be publish or unpublish");
+    }
+    const runAt = Date.parse(request.runAt);
+    if (Number.isNaN(runAt)) {
+      throw new BadRequestError("runAt must be an ISO 8601 timestamp");
+    }
+    const version = await this.store.getSummary(request.versionId);
+    if (!version) {
+      throw new NotFoundError("Version not found");
+    }
+    if (request.action === 'publish') {
+      this.assertNotArchived(version, 'schedule');
+    }
+    if (request.channel !== undefined) {
+      assertChannelName(request.channel);
+    }
+
+    const schedule: Schedule = {
+      id: crypto.randomUUID(),
+      action: request.action,
+      versionId: request.versionId,
+      runAt: new Date(runAt).toISOString(),
+      createdBy,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      ...(request.channel ? { channel: request.channel } : {}),
+      documentId,
+      origin
+    };
+    await this.store.putSchedule(schedule);
+    await this.store.touch();
+    await this.scheduleNextAlarm();
+    return schedule;
+  }
+
+  async cancelSchedule(id: string): Promise<Schedule> {
+    const schedule = await this.store.getSchedule(id);
+    if (!schedule) {
+      throw new NotFoundError("Schedule not found");
+    }
+    if (schedule.status !== 'pending') {
+      throw new ConflictError(`Schedule is already ${schedule.status}`);
+    }
+
+    schedule.status = 'cancelled';
+    await this.store.putSchedule(schedule);
+    await this.store.touch();
+    await this.scheduleNextAlarm();
+    return schedule;
+  }
+
+  private async updateSchedule(schedule: Schedule, changes: Partial<Schedule>): Promise<void> {
+    await this.store.putSchedule({ ...schedule, ...changes });
+    await this.store.touch();
+  }
+
+  // Point the Durable Object alarm at the earliest pending schedule or webhook delivery
+  private async scheduleNextAlarm(): Promise<void> {
+    const pending = [
+      ...(await this.store.getSchedules())
+        .filter(s => s.status === 'pending')
+        .map(s => Date.parse(s.runAt)),
+      ...(await this.store.getDeliveries())
+        .filter(d => d.status === 'pending')
+        .map(d => Date.parse(d.nextAttemptAt || d.createdAt))
+    ];
+    if (pending.length === 0) {
+      await this.state.storage.deleteAlarm();
+      return;
+    }
+    await this.state.storage.setAlarm(Math.min(...pending));
+  }
+
+  // Drop the cached public pages of the channel a schedule changed. The worker purges after the writes it
+  // forwards but never sees these; the purge reaches the cache of the data center the object runs in.
+  private async purgeScheduled(schedule: Schedule): Promise<void> {
+    if (!schedule.documentId || !schedule.origin) {
+      return;
+    }
+    try {
+      await purgePublished(schedule.origin, schedule.documentId, [schedule.channel || DEFAULT_CHANNEL]);
+    } catch (err) {
+      // The change is made, the cached copy expires after the TTL anyway
+      console.error('Purging the cache after schedule', schedule.id, 'failed:', err);
+    }
+  }
+
+  // Alarm handler - run every schedule that is due, in order, as the user who scheduled it,
+  // then send the webhook deliveries that are due
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const due = (await this.store.getSchedules())
+      .filter(s => s.status === 'pending' && Date.parse(s.runAt) <= now)
+      .sort((a, b) => a.runAt.localeCompare(b.runAt));
+
+    for (const schedule of due) {
+      try {
+        const before = await this.store.getSummary(schedule.versionId);
+        if (schedule.action === 'publish') {
+          await this.publishVersion(schedule.versionId, schedule.createdBy, undefined, { scheduleId: schedule.id, channel: schedule.channel });
+        } else {
+          await this.unpublishVersion(schedule.versionId, schedule.createdBy, schedule.id, schedule.channel);
+        }
+        await this.audit({ sub: schedule.createdBy }, {
+          action: schedule.action === 'publish' ? 'version.publish' : 'version.unpublish',
+          target: { type: 'version', id: String(schedule.versionId) },
+          before,
+          after: { ...await this.store.getSummary(schedule.versionId), channel: schedule.channel || DEFAULT_CHANNEL, scheduleId: schedule.id }
+        });
+        await this.updateSchedule(schedule, { status: 'done', executedAt: new Date().toISOString() });
+        await this.purgeScheduled(schedule);
+      } catch (err) {
+        const error = err as Error;
+        console.error('Scheduled', schedule.action, 'failed:', error);
+        await this.updateSchedule(schedule, {
+          status: 'failed',
+          executedAt: new Date().toISOString(),
+          error: error.message
+        });
+      }
+    }
+
+    await this.deliverWebhooks();
+    await this.scheduleNextAlarm();
+  }
+
+  // Audit log
+
+  // Append a change to the audit log, chained to the entry before it
+  private async audit(actor: { sub: string; role?: string }, change: AuditChange, request?: Request): Promise<AuditEntry> {
+    return appendAuditEntry(this.state, actor, change, request);
+  }
+
+  // Matching entries, newest first
+  async getAuditLog(query: AuditQuery): Promise<AuditPage> {
+    return auditPage(await this.store.getAuditEntries(), query);
+  }
+
+  // Matching entries as NDJSON, oldest first like the chain itself
+  async exportAuditLog(query: AuditQuery): Promise<string> {
+    const entries = await this.store.getAuditEntries();
+    return toNdjson(entries.filter(entry => matchesAuditQuery(entry, query)));
+  }
+
+  async verifyAuditLog(): Promise<AuditVerification> {
+    return verifyAuditChain(await this.store.getAuditEntries());
+  }
+
+  // Change feed
+
+  // Record a change in the event log, push it to connected clients and queue it for webhooks
+  private async emitEvent(type: ChangeEventType, data: Record<string, unknown>): Promise<void> {
+    const event = await this.store.appendEvent({ type, timestamp: new Date().toISOString(), data });
+    await this.store.pruneEvents(event.id, MAX_EVENT_LOG);
+    this.broadcast({ type: 'event', event });
+    await this.queueDeliveries(event);
+  }
+
+  // Logged events after `since` (all of them without it), or a reset when some of the requested
+  // events were already dropped from the log
+  async getEventsSince(since?: number): Promise<FeedMessage[]> {
+    const oldest = await this.store.getOldestEvent();
+    if (since === undefined) {
+      since = oldest ? oldest.id - 1 : 0;
+    } else if (oldest && oldest.id > since + 1) {
+      return [{ type: 'reset', oldestEventId: oldest.id }];
+    }
+    const events = await this.store.getEventsSince(since);
+    return events.map(event => ({ type: 'event', event }));
+  }
+
+  // Accept a WebSocket through the hibernation API: the object may be evicted while clients
+  // stay connected, and is woken up again for their messages
+  async openFeed(since?: number): Promise<Response> {
+    const [client, server] = Object.values(new WebSocketPair());
+    this.state.acceptWebSocket(server);
+
+    const catchUp = since === undefined ? [] : await this.getEventsSince(since);
+    const ready: FeedMessage = { type: 'ready', lastEventId: await this.store.getLatestEventId() };
+    for (const message of [...catchUp, ready]) {
+      server.send(JSON.stringify(message));
+    }
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  private broadcast(message: FeedMessage): void {
+    const data = JSON.stringify(message);
+    for (const socket of this.state.getWebSockets()) {
+      try {
+        socket.send(data);
+      } catch (err) {
+        // The socket is closing, its close handler cleans up
+        console.error('Broadcast failed:', err);
+      }
+    }
+  }
+
+  async webSocketMessage(socket: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    let request: FeedRequest;
+    try {
+      request = JSON.parse(typeof message === 'string' ? message : new TextDecoder().decode(message));
+    } catch {
+      socket.send(JSON.stringify({ type: 'error', error: "Messages must be JSON" } as FeedMessage));
+      return;
+    }
+
+    if (request.type === 'ping') {
+      socket.send(JSON.stringify({ type: 'pong' } as FeedMessage));
+    } else if (request.type === 'resume' && Number.isInteger(request.since) && request.since >= 0) {
+      for (const reply of await this.getEventsSince(request.since)) {
+        socket.send(JSON.stringify(reply));
+      }
+    } else {
+      socket.send(JSON.stringify({ type: 'error', error: "Expected a ping or a resume with a since event id" } as FeedMessage));
+    }
+  }
+
+  async webSocketClose(socket: WebSocket, code: number, reason: string): Promise<void> {
+    socket.close(code, reason);
+  }
+
+  async webSocketError(socket: WebSocket, error: unknown): Promise<void> {
+    console.error('WebSocket error:', error);
+    socket.close(1011, 'WebSocket error');
+  }
+
+  // Webhooks
+
+  async getWebhooks(): Promise<WebhookView[]> {
+    const webhooks = await this.store.getWebhooks();
+    return webhooks.map(toWebhookView);
+  }
+
+  // The secret is returned here and never again
+  async createWebhook(request: CreateWebhookRequest, documentId: string, createdBy: string): Promise<Webhook> {
+    const { url, events, secret } = parseWebhookRequest(request);
+    const webhook: Webhook = {
+      id: crypto.randomUUID(),
+      documentId,
+      url,
+      events,
+      secret,
+      createdAt: new Date().toISOString(),
+      createdBy
+    };
+    await this.store.putWebhook(webhook);
+    await this.store.touch();
+    return webhook;
+  }
+
+  // Pending deliveries of a deleted webhook are marked failed when their turn comes
+  async deleteWebhook(id: string): Promise<{ success: boolean; message: string }> {
+    if (!(await this.store.getWebhook(id))) {
+      throw new NotFoundError("Webhook not found");
+    }
+    await this.store.deleteWebhook(id);
+    await this.store.touch();
+    return {
+      success: true,
+      message: `Webhook ${id} deleted successfully`
+    };
+  }
+
+  // Delivery log, newest first
+  async getDeliveries(webhookId?: string, status?: string): Promise<WebhookDelivery[]> {
+    const deliveries = await this.store.getDeliveries();
+    return deliveries
+      .filter(d => !webhookId || d.webhookId === webhookId)
+      .filter(d => !status || d.status === status)
+      .reverse();
+  }
+
+  // Queue a delivery of the event for every webhook subscribed to it, the alarm sends them
+  private async queueDeliveries(event: ChangeEvent): Promise<void> {
+    const webhooks = (await this.store.getWebhooks()).filter(webhook => subscribesTo(webhook, event.type));
+    if (webhooks.length === 0) {
+      return;
+    }
+
+    const deliveries = webhooks.map((webhook): WebhookDelivery => {
+      // Ids start with the time so that the delivery log lists in order
+      const id = `${Date.now().toString().padStart(13, '0')}-${crypto.randomUUID().slice(0, 8)}`;
+      return {
+        id,
+        webhookId: webhook.id,
+        event: event.type,
+        payload: { id, eventId: event.id, event: event.type, documentId: webhook.documentId, timestamp: event.timestamp, data: event.data },
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: event.timestamp,
+        createdAt: event.timestamp
+      };
+    });
+    await this.store.putDeliveries(deliveries);
+    await this.pruneDeliveries();
+    await this.scheduleNextAlarm();
+  }
+
+  // Attempt every pending delivery that is due; failures are retried with a growing delay
+  private async deliverWebhooks(): Promise<void> {
+    const now = Date.now();
+    const due = (await this.store.getDeliveries())
+      .filter(d => d.status === 'pending' && Date.parse(d.nextAttemptAt || d.createdAt) <= now);
+    const webhooks = new Map((await this.store.getWebhooks()).map(webhook => [webhook.id, webhook]));
+
+    for (const delivery of due) {
+      const webhook = webhooks.get(delivery.webhookId);
+      if (!webhook) {
+        await this.store.putDeliveries([{ ...delivery, status: 'failed', nextAttemptAt: undefined, error: "Webhook was deleted" }]);
+        continue;
+      }
+
+      const result = await sendDelivery(webhook, delivery);
+      const attempts = delivery.attempts + 1;
+      const attempted: WebhookDelivery = {
+        ...delivery,
+        attempts,
+        lastAttemptAt: new Date().toISOString(),
+        responseStatus: result.status,
+        error: result.error
+      };
+      if (result.ok) {
+        attempted.status = 'delivered';
+        attempted.deliveredAt = attempted.lastAttemptAt;
+        attempted.nextAttemptAt = undefined;
+      } else if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+        attempted.status = 'failed';
+        attempted.nextAttemptAt = undefined;
+      } else {
+        attempted.nextAttemptAt = new Date(Date.now() + retryDelay(attempts)).toISOString();
+      }
+      await this.store.putDeliveries([attempted]);
+    }
+    // The delivery log is served with the document ETag, which must change with it
+    if (due.length > 0) {
+      await this.store.touch();
+    }
+  }
+
+  // Keep the delivery log bounded, dropping the oldest finished deliveries
+  private async pruneDeliveries(): Promise<void> {
+    const deliveries = await this.store.getDeliveries();
+    const excess = deliveries.length - MAX_DELIVERY_LOG;
+    if (excess <= 0) {
+      return;
+    }
+    const finished = deliveries.filter(d => d.status !== 'pending').slice(0, excess);
+    await this.store.deleteDeliveries(finished.map(d => d.id));
+  }
+  
+  // Review workflow
+
+  private countApprovals(version: VersionListItem): number {
+    const approvers = (version.review?.decisions || [])
+      .filter(d => d.decision === 'approved')
+      .map(d => d.reviewer);
+    return new Set(approvers).size;
+  }
+
+  // Send a draft (or a rejected version) for review, optionally to specific reviewers
+  async submitForReview(versionId: number, reviewers: string[] = [], submittedBy?: string): Promise<Version> {
+    const version = await this.store.getVersion(versionId);
+    if (!version) {
+      throw new NotFoundError("Version not found");
+    }
+    if (version.status !== VersionStatus.DRAFT && version.status !== VersionStatus.REJECTED) {
+      throw new ConflictError(`Cannot submit a ${version.status} version for review`);
+    }
+
+    version.status = VersionStatus.IN_REVIEW;
+    version.review = {
+      submittedBy,
+      submittedAt: new Date().toISOString(),
+      reviewers,
+      decisions: []
+    };
+    await this.store.putSummaries([version]);
+    await this.store.touch();
+    return version;
+  }
+
+  // Record an approval or rejection. A version becomes approved once it has enough distinct
+  // approvals (at least one), and rejected as soon as one reviewer rejects it.
+  async reviewVersion(versionId: number, reviewer: Identity, decision: 'approved' | 'rejected', comment?: string): Promise<Version> {
+    const meta = await this.store.getMeta();
+    const version = await this.store.getVersion(versionId);
+    if (!version) {
+      throw new NotFoundError("Version not found");
+    }
+    if (version.status !== VersionStatus.IN_REVIEW || !version.review) {
+      throw new ConflictError("Version is not in review");
+    }
+    if (version.author && version.author === reviewer.sub) {
+      throw new ForbiddenError("Authors cannot review their own version");
+    }
+    const { reviewers } = version.review;
+    if (reviewers.length > 0 && !reviewers.includes(reviewer.sub) && !hasRole(reviewer, 'admin')) {
+      throw new ForbiddenError("You are not a reviewer of this version");
+    }
+
+    version.review.decisions.push({
+      reviewer: reviewer.sub,
+      decision,
+      comment,
+      decidedAt: new Date().toISOString()
+    });
+
+    if (decision === 'rejected') {
+      version.status = VersionStatus.REJECTED;
+    } else if (this.countApprovals(version) >= Math.max(1, meta.reviewSettings.requiredApprovals)) {
+      version.status = VersionStatus.APPROVED;
+    }
+
+    await this.store.putSummaries([version]);
+    await this.store.saveMeta(meta);
+    return version;
+  }
+
+  async getReviewSettings(): Promise<ReviewSettings> {
+    const meta = await this.store.getMeta();
+    return meta.reviewSettings;
+  }
+
+  async updateReviewSettings(settings: ReviewSettings): Promise<ReviewSettings> {
+    const meta = await this.store.getMeta();
+    if (!Number.isInteger(settings.requiredApprovals) || settings.requiredApprovals < 0) {
+      throw new BadRequestError("requiredApprovals must be a non-negative integer");
+    }
+    meta.reviewSettings = { requiredApprovals: settings.requiredApprovals };
+    await this.store.saveMeta(meta);
+    return meta.reviewSettings;
+  }
+
+  // Content types
+
+  private getContentTypeSettings(meta: DocumentMeta): ContentTypeSettings {
+    return { contentType: meta.contentType || 'text', schema: meta.schema };
+  }
+
+  async getContentType(): Promise<ContentTypeSettings> {
+    return this.getContentTypeSettings(await this.store.getMeta());
+  }
+
+  // Change how the document's content is validated. Existing versions are left as they are,
+  // the new rules apply from the next publish.
+  async updateContentType(settings: ContentTypeSettings): Promise<ContentTypeSettings> {
+    const meta = await this.store.getMeta();
+    if (!CONTENT_TYPES.includes(settings.contentType)) {
+      throw new BadRequestError(`contentType must be one of: ${CONTENT_TYPES.join(', ')}`);
+    }
+    if (settings.schema !== undefined) {
+      if (settings.contentType === 'text') {
+        throw new BadRequestError("schema is only supported for json and markdown documents");
+      }
+      assertValidSchema(settings.schema);
+    }
+
+    meta.contentType = settings.contentType;
+    meta.schema = settings.schema;
+    await this.store.saveMeta(meta);
+    return this.getContentTypeSettings(meta);
+  }
+
+  // Keep a copy of the name and template the registry holds for the document's pages
+  async updatePageSettings(settings: PageSettings): Promise<PageSettings> {
+    const meta = await this.store.getMeta();
+    meta.page = { name: settings.name, template: settings.template };
+    await this.store.saveMeta(meta);
+    return meta.page;
+  }
+
+  async validateVersion(versionId: number): Promise<ContentValidation> {
+    const meta = await this.store.getMeta();
+    const version = await this.store.getVersion(versionId);
     if (!version) {
-      throw new Error("Version not found");
+      throw new NotFoundError("Version not found");
     }
-  
-    data.versions = data.versions.map(v => ({
-      ...v,
-      status: v.id === versionId ? VersionStatus.PUBLISHED : VersionStatus.DRAFT
-    }));
-  
-    const publishRecord: PublishRecord = {
+    const settings = this.getContentTypeSettings(meta);
+    const errors = validateContent(version.content, settings);
+    return {
       versionId,
-      publishedAt: new Date().toISOString(),
-      publishedBy
+      contentType: settings.contentType,
+      valid: errors.length === 0,
+      errors
     };
-  
-    if (!data.publishHistory) {
-      data.publishHistory = [];
-    }
-    data.publishHistory.push(publishRecord);
-  
-    data.currentVersion = versionId;
-    data.content = version.content;
-  
-    await this.state.storage.put("content", data);
-    return publishRecord;
   }
-  
-  // Unpublish a version
-  async unpublishVersion(versionId: number): Promise<Version> {
-    const data = await this.initialize();
-    const version = data.versions.find(v => v.id === versionId);
-    if (!version) {
-      throw new Error("Version not found");
-    }
-    data.versions = data.versions.map(v => ({
-      ...v,
-      status: v.id === versionId ? VersionStatus.DRAFT : v.status
-    }));
-    if (data.publishHistory) {
-      data.publishHistory = data.publishHistory.filter(
-        record => record.versionId !== versionId
-      );
-    }
-    if (data.currentVersion === versionId) {
-      data.currentVersion = 0;
-      data.content = null;
-    }
-    await this.state.storage.put("content", data);
-    const updatedVersion = data.versions.find(v => v.id === versionId);
-    if (!updatedVersion) {
-      throw new Error("Failed to get updated version");
+
+  // Both versions of a comparison, or fail when either is missing
+  private async getVersionPair(fromId: number, toId: number): Promise<[Version, Version]> {
+    const [fromVersion, toVersion] = await Promise.all([this.store.getVersion(fromId), this.store.getVersion(toId)]);
+    if (!fromVersion || !toVersion) {
+      throw new NotFoundError("Version not found");
     }
-    return updatedVersion;
-  }
-  
-  async getPublishHistory(): Promise<PublishRecord[]> {
-    const data = await this.initialize();
-    return data.publishHistory || [];
+    return [fromVersion, toVersion];
   }
   
   // TODO: Diff and version control operations
   async compareVersions(fromId: number, toId: number): Promise<ContentDiff> {
-    const data = await this.initialize();
-    const fromVersion = data.versions.find(v => v.id === fromId);
-    const toVersion = data.versions.find(v => v.id === toId);
-    if (!fromVersion || !toVersion) {
-      throw new Error("Version not found");
+    const [fromVersion, toVersion] = await this.getVersionPair(fromId, toId);
+    const diff = calculateDetailedDiff(fromVersion.content, toVersion.content);
+    const { contentType } = this.getContentTypeSettings(await this.store.getMeta());
+    if (contentType === 'json') {
+      try {
+        diff.semantic = diffJson(JSON.parse(fromVersion.content), JSON.parse(toVersion.content));
+      } catch {
+        // Either version is not valid JSON, only the text diff applies
+      }
     }
-    return this.calculateDetailedDiff(fromVersion.content, toVersion.content);
+    return diff;
   }
   
-  private calculateDetailedDiff(oldContent: string, newContent: string): ContentDiff {
-    const patch = createPatch('content', 
-      oldContent,
-      newContent,
-      'old version',
-      'new version'
-    );
-  
-    const oldLines = oldContent.split('\n');
-    const newLines = newContent.split('\n');
-  
+  // Inline diff of a version at line, word, character or sentence granularity, against the version to
+  // compare with or else its first parent. A version without parents is diffed against empty content.
+  async getInlineDiff(versionId: number, mode: DiffMode, compareToId?: number): Promise<InlineDiff> {
+    const toVersion = await this.store.getVersion(versionId);
+    if (!toVersion) {
+      throw new NotFoundError("Version not found");
+    }
+    const fromId = compareToId || toVersion.parents[0] || 0;
+    const fromVersion = fromId ? await this.store.getVersion(fromId) : undefined;
+    if (fromId && !fromVersion) {
+      throw new NotFoundError("Version not found");
+    }
+
     return {
-      from: oldContent,
-      to: newContent,
-      changes: {
-        additions: newLines.length - oldLines.length,
-        deletions: Math.max(0, oldLines.length - newLines.length),
-        totalChanges: Math.abs(newLines.length - oldLines.length),
-        timestamp: new Date().toISOString()
-      },
-      patch: patch,
-      hunks: []
+      fromVersion: fromId,
+      toVersion: toVersion.id,
+      mode,
+      changes: calculateInlineDiff(fromVersion?.content || '', toVersion.content, mode)
     };
   }
   
-  async getDiff(fromVersionId: number, toVersionId: number): Promise<Response> {
-    const data = await this.initialize();
-    const fromVersion = data.versions.find(v => v.id === fromVersionId);
-    const toVersion = data.versions.find(v => v.id === toVersionId);
-    
-    if (!fromVersion || !toVersion) {
-      throw new Error("Version not found");
+  // Attribute every line of a version to the version that introduced it, following all parents
+  // so that lines brought in by a merge keep the version they were written in
+  async getBlame(versionId: number): Promise<BlameResult> {
+    const version = await this.store.getVersion(versionId);
+    if (!version) {
+      throw new NotFoundError("Version not found");
+    }
+    const summaries = new Map((await this.store.listSummaries()).map(v => [v.id, v]));
+    const lines = new Map<number, string[]>([[version.id, splitLines(version.content)]]);
+    const getLines = async (id: number): Promise<string[]> => {
+      if (!lines.has(id)) {
+        lines.set(id, splitLines((await this.store.getVersion(id))?.content || ''));
+      }
+      return lines.get(id) as string[];
+    };
+
+    const blamed = lines.get(version.id) as string[];
+    const introducedBy: VersionListItem[] = [];
+    // Lines not attributed yet, per version: index in that version -> index in the blamed version
+    const pending = new Map([[version.id, new Map(blamed.map((_, i) => [i, i]))]]);
+    while (pending.size > 0) {
+      // Parents have lower ids than their children, so a version is only visited once all of its
+      // descendants have handed their lines down to it
+      const id = Math.max(...pending.keys());
+      const open = pending.get(id) as Map<number, number>;
+      pending.delete(id);
+      const current = summaries.get(id) as VersionListItem;
+      const currentLines = await getLines(id);
+
+      const parents = current.parents.filter(parent => summaries.has(parent));
+      const traced: Array<Map<number, number>> = [];
+      for (const parent of parents) {
+        traced.push(traceLines(await getLines(parent), currentLines));
+      }
+
+      open.forEach((target, index) => {
+        const from = traced.findIndex(map => map.has(index));
+        if (from === -1) {
+          introducedBy[target] = current;
+          return;
+        }
+        const parentLines = pending.get(parents[from]) || new Map<number, number>();
+        parentLines.set(traced[from].get(index) as number, target);
+        pending.set(parents[from], parentLines);
+      });
     }
+
+    return {
+      versionId: version.id,
+      lines: blamed.map((content, i) => ({
+        line: i + 1,
+        content,
+        versionId: introducedBy[i].id,
+        timestamp: introducedBy[i].timestamp,
+        message: introducedBy[i].message,
+        author: introducedBy[i].author
+      }))
+    };
+  }
+
+  async getDiff(fromVersionId: number, toVersionId: number): Promise<Response> {
+    const [fromVersion, toVersion] = await this.getVersionPair(fromVersionId, toVersionId);
   
     const formattedDiff = [
       `Comparing Version ${fromVersion.id} -> Version ${toVersion.id}`,
@@ -330,30 +1457,339 @@ private async initialize(): Promise<ContentState> {
     });
   }
   
-  async revertTo(versionId: number): Promise<Version> {
-    const data = await this.initialize();
-    const targetVersion = data.versions.find(v => v.id === versionId);
+  async revertTo(versionId: number, branchName: string = DEFAULT_BRANCH, baseVersion?: number, author?: string): Promise<Version> {
+    const meta = await this.store.getMeta();
+    const targetVersion = await this.store.getVersion(versionId);
     if (!targetVersion) {
-      throw new Error("Version not found");
+      throw new NotFoundError("Version not found");
     }
+    this.assertNotArchived(targetVersion, 'revert to');
+    const branch = this.getBranch(meta, branchName);
+    await this.assertBaseVersion(baseVersion, branch.head);
+    const head = await this.store.getVersion(branch.head);
   
     const newVersion: Version = {
-      id: this.getNextVersionId(data),
+      id: meta.nextVersionId++,
       content: targetVersion.content,
       timestamp: new Date().toISOString(),
       message: `Reverted to version ${versionId}`,
-      status: targetVersion.status,
-      diff: this.calculateDetailedDiff(
-        data.versions[data.versions.length - 1]?.content || '',
+      // A revert is new work on the branch: it goes through review and publishing like any other version
+      status: VersionStatus.DRAFT,
+      diff: calculateDetailedDiff(
+        head?.content || '',
         targetVersion.content
-      )
+      ),
+      parents: head ? [head.id] : [],
+      branch: branchName,
+      author
     };
   
-    data.versions.push(newVersion);
-    await this.state.storage.put("content", data);
+    await this.commitVersion(meta, newVersion);
+    await this.emitEvent('version.reverted', { version: toSummary(newVersion), revertedTo: versionId });
     return newVersion;
   }
+
+  // Branching and merging
+
+  async getBranches(): Promise<Branch[]> {
+    const meta = await this.store.getMeta();
+    return Object.values(meta.branches);
+  }
+
+  async createBranch(name: string, fromVersion?: number): Promise<Branch> {
+    const meta = await this.store.getMeta();
+    if (!name) {
+      throw new BadRequestError("Branch name is required");
+    }
+    if (meta.branches[name]) {
+      throw new ConflictError("Branch already exists");
+    }
+
+    const head = fromVersion ?? meta.branches[DEFAULT_BRANCH].head;
+    if (head && !(await this.store.getSummary(head))) {
+      throw new NotFoundError("Version not found");
+    }
+
+    const branch: Branch = {
+      name,
+      head,
+      createdAt: new Date().toISOString()
+    };
+    meta.branches[name] = branch;
+    await this.store.saveMeta(meta);
+    return branch;
+  }
+
+  async deleteBranch(name: string): Promise<{ success: boolean; message: string }> {
+    const meta = await this.store.getMeta();
+    this.getBranch(meta, name);
+    if (name === DEFAULT_BRANCH) {
+      throw new ConflictError("Cannot delete the main branch");
+    }
+
+    delete meta.branches[name];
+    await this.store.saveMeta(meta);
+    return {
+      success: true,
+      message: `Branch ${name} deleted successfully`
+    };
+  }
+
+  // All versions reachable from a version through its parents, including itself
+  private getAncestors(versions: Map<number, VersionListItem>, versionId: number): Set<number> {
+    const ancestors = new Set<number>();
+    const pending = [versionId];
+    while (pending.length > 0) {
+      const id = pending.pop() as number;
+      if (ancestors.has(id)) {
+        continue;
+      }
+      ancestors.add(id);
+      const version = versions.get(id);
+      if (version) {
+        pending.push(...version.parents);
+      }
+    }
+    return ancestors;
+  }
+
+  // Most recent version that both heads descend from
+  private async findCommonAncestor(a: number, b: number): Promise<number | null> {
+    const versions = new Map((await this.store.listSummaries()).map(v => [v.id, v]));
+    const ancestorsOfA = this.getAncestors(versions, a);
+    const common = [...this.getAncestors(versions, b)].filter(id => ancestorsOfA.has(id));
+    return common.length > 0 ? Math.max(...common) : null;
+  }
+
+  // Three-way merge of the source branch head into the target branch head
+  async mergeBranches(
+    sourceName: string,
+    targetName: string = DEFAULT_BRANCH,
+    options: { message?: string; content?: string; commit?: boolean; author?: string } = {}
+  ): Promise<MergeResult> {
+    const meta = await this.store.getMeta();
+    const source = this.getBranch(meta, sourceName);
+    const target = this.getBranch(meta, targetName);
+    const sourceHead = await this.store.getVersion(source.head);
+    const targetHead = await this.store.getVersion(target.head);
+    if (!sourceHead) {
+      throw new ConflictError("Source branch has no versions");
+    }
+
+    const baseId = targetHead ? await this.findCommonAncestor(targetHead.id, sourceHead.id) : null;
+    const result: MergeResult = {
+      status: 'clean',
+      source: sourceName,
+      target: targetName,
+      baseVersion: baseId,
+      content: sourceHead.content,
+      conflicts: []
+    };
+
+    if (targetHead && baseId === sourceHead.id) {
+      return { ...result, status: 'up-to-date', content: targetHead.content };
+    }
+
+    // Nothing happened on the target since the branches split: move its head forward
+    if (!targetHead || baseId === targetHead.id) {
+      if (options.commit === false) {
+        return { ...result, status: 'fast-forward' };
+      }
+      meta.branches[targetName] = {
+        ...target,
+        head: sourceHead.id,
+        updatedAt: new Date().toISOString()
+      };
+      await this.store.saveMeta(meta);
+      return { ...result, status: 'fast-forward' };
+    }
+
+    const base = baseId ? await this.store.getVersion(baseId) : undefined;
+    const merged = mergeThreeWay(base?.content || '', targetHead.content, sourceHead.content, {
+      ours: targetName,
+      theirs: sourceName
+    });
+    result.content = merged.content;
+    result.conflicts = merged.conflicts;
+
+    // A resolved content from the client settles any conflicts
+    if (options.content !== undefined) {
+      result.content = options.content;
+    } else if (merged.conflicts.length > 0) {
+      return { ...result, status: 'conflict' };
+    }
+
+    if (options.commit === false) {
+      return result;
+    }
+
+    const mergeVersion: Version = {
+      id: meta.nextVersionId++,
+      content: result.content,
+      timestamp: new Date().toISOString(),
+      message: options.message || `Merge branch '${sourceName}' into ${targetName}`,
+      status: VersionStatus.DRAFT,
+      diff: calculateDetailedDiff(targetHead.content, result.content),
+      parents: [targetHead.id, sourceHead.id],
+      branch: targetName,
+      author: options.author
+    };
+    await this.commitVersion(meta, mergeVersion);
+    await this.emitEvent('version.created', { version: toSummary(mergeVersion) });
+
+    return { ...result, status: 'merged', version: mergeVersion };
+  }
   
+  // Export and import
+
+  // Stream the document as an NDJSON archive, rebuilding contents a batch at a time as it is read
+  async exportDocument(documentId: string): Promise<ReadableStream<Uint8Array>> {
+    const records = this.archiveRecords(documentId);
+    const encoder = new TextEncoder();
+    return new ReadableStream({
+      async pull(controller): Promise<void> {
+        const { value, done } = await records.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(archiveLine(value)));
+        }
+      }
+    });
+  }
+
+  private async *archiveRecords(documentId: string): AsyncGenerator<ArchiveRecord> {
+    // Everything but the contents is read up front, so that the records agree with each other
+    const meta = await this.store.getMeta();
+    const summaries = await this.store.listSummaries();
+    const tags = Object.values(await this.store.getTags());
+    const publishRecords = await this.store.getPublishHistory();
+
+    yield {
+      type: 'header',
+      format: ARCHIVE_FORMAT,
+      formatVersion: ARCHIVE_FORMAT_VERSION,
+      documentId,
+      exportedAt: new Date().toISOString(),
+      meta: {
+        currentVersion: mainHead(meta),
+        branches: meta.branches,
+        reviewSettings: meta.reviewSettings,
+        contentType: meta.contentType,
+        schema: meta.schema,
+        channels: await this.getChannels(meta)
+      }
+    };
+    for (let i = 0; i < summaries.length; i += EXPORT_BATCH_SIZE) {
+      for (const version of await this.store.getVersions(summaries.slice(i, i + EXPORT_BATCH_SIZE))) {
+        const archived: Partial<Version> = { ...version };
+        delete archived.diff;
+        yield { type: 'version', version: archived as ArchivedVersion };
+      }
+    }
+    for (const tag of tags) {
+      yield { type: 'tag', tag };
+    }
+    for (const record of publishRecords) {
+      yield { type: 'publish', record };
+    }
+    yield { type: 'end', counts: { versions: summaries.length, tags: tags.length, publishRecords: publishRecords.length } };
+  }
+
+  // Load an NDJSON archive into the document.
+  // replace swaps the document's history and settings for the archive's and keeps the archive ids.
+  // merge adds the archive next to the existing history: ids move past the existing ones when they
+  // would collide, and branches and tags that clash with existing ones are imported as imported-<name>.
+  async importDocument(text: string, mode: ImportMode, documentId: string): Promise<ImportReport> {
+    const archive = parseArchive(text);
+    // Other requests must not see, or write to, a half imported history
+    return this.state.blockConcurrencyWhile(async () => {
+      let meta = await this.store.getMeta();
+      if (mode === 'replace') {
+        await this.store.clearHistory();
+        meta = {
+          ...meta,
+          publishSequence: 0,
+          branches: {},
+          reviewSettings: archive.meta.reviewSettings,
+          contentType: archive.meta.contentType,
+          schema: archive.meta.schema,
+          searchIndexed: true,
+          channels: archive.meta.channels
+        };
+      }
+
+      const firstId = archive.versions[0]?.id ?? 1;
+      const offset = mode === 'replace' ? 0 : Math.max(0, meta.nextVersionId - firstId);
+      const remap = (id: number): number => (id ? id + offset : 0);
+      // Only one version is live: imported versions stay published only when the document had none
+      const hasPublished = mode === 'merge' && (await this.store.listSummaries()).some(v => v.status === VersionStatus.PUBLISHED);
+
+      const renamedBranches: { [name: string]: string } = {};
+      for (const branch of Object.values(archive.meta.branches)) {
+        // An existing branch without versions, like the main branch of a new document, is taken over
+        const name = meta.branches[branch.name]?.head
+          ? importedName(branch.name, candidate => hasOwn(meta.branches, candidate) || hasOwn(archive.meta.branches, candidate))
+          : branch.name;
+        if (name !== branch.name) {
+          renamedBranches[branch.name] = name;
+        }
+        meta.branches[name] = { ...branch, name, head: remap(branch.head) };
+      }
+
+      const contents = new Map<number, string>();
+      for (const archived of archive.versions) {
+        const parents = archived.parents.map(remap);
+        const version: Version = {
+          ...archived,
+          id: remap(archived.id),
+          parents,
+          branch: renamedBranches[archived.branch] || archived.branch,
+          status: hasPublished && archived.status === VersionStatus.PUBLISHED ? VersionStatus.DRAFT : archived.status,
+          diff: parents[0] ? calculateDetailedDiff(contents.get(parents[0]) || '', archived.content) : undefined
+        };
+        contents.set(version.id, version.content);
+        if (mode === 'merge' && version.status === VersionStatus.PUBLISHED) {
+          // Published in the archive and the document had no published version: it goes live on production
+          (await this.getChannels(meta))[DEFAULT_CHANNEL] = { name: DEFAULT_CHANNEL, versionId: version.id, updatedAt: new Date().toISOString() };
+        }
+        await this.store.putVersion(version);
+        await this.store.addToIndex(version.id, indexTerms(version));
+        meta.nextVersionId = Math.max(meta.nextVersionId, version.id + 1);
+      }
+
+      const tags = await this.store.getTags();
+      const renamedTags: { [name: string]: string } = {};
+      for (const tag of archive.tags) {
+        const name = tags[tag.name]
+          ? importedName(tag.name, candidate => hasOwn(tags, candidate) || archive.tags.some(t => t.name === candidate))
+          : tag.name;
+        if (name !== tag.name) {
+          renamedTags[tag.name] = name;
+        }
+        tags[name] = { ...tag, name, versionId: remap(tag.versionId) };
+      }
+      await this.store.putTags(tags);
+
+      for (const record of archive.publishRecords) {
+        await this.store.appendPublishRecord(meta, { ...record, versionId: remap(record.versionId) });
+      }
+      await this.store.saveMeta(meta);
+      // Replacing drops the pending schedules
+      await this.scheduleNextAlarm();
+
+      return {
+        mode,
+        documentId,
+        sourceDocumentId: archive.documentId,
+        counts: { versions: archive.versions.length, tags: archive.tags.length, publishRecords: archive.publishRecords.length },
+        idMap: offset ? Object.fromEntries(archive.versions.map(v => [v.id, remap(v.id)])) : {},
+        renamedBranches,
+        renamedTags
+      };
+    });
+  }
+
   // TODO: Request handling and routing
   // Entry point for requests to the Durable Object
 async fetch(request: Request): Promise<Response> {
@@ -370,139 +1806,636 @@ async fetch(request: Request): Promise<Response> {
        // Add detailed logging
       console.log('Request details:');
       console.log('- Method:', request.method);
-      console.log('- URL:', request.url);
       console.log('- Path:', url.pathname);
       console.log('- Parts:', parts);
-      console.log('- Headers:', Object.fromEntries(request.headers));
-
-      // Log the body if it exists
-      if (request.body) {
-        const clonedRequest = request.clone();
-        const body = await clonedRequest.text();
-        console.log('- Body:', body);
-      }
   
+      // Check the branch before the request changes anything, so that a write is not answered with a 404
+      const branchName = branchParam(request);
+      if (branchName) {
+        this.getBranch(await this.store.getMeta(), branchName);
+      }
+
       const response = await this.handleRequest(request, parts);
-      return response;
+      // The document itself was deleted, there is no state left to tag
+      if (request.method === 'DELETE' && parts.length === 2) {
+        return response;
+      }
+      return await this.withETag(request, response);
 
     } catch (err) {
-      const error = err as Error;
-      console.error('Error:', error);
-      return new Response(error.message, { 
-        status: 500
-      });
+      return errorResponse(err);
     }
   }
+
+  // Tag successful responses with the document ETag and answer conditional GETs with 304. The ETag
+  // carries the head of the branch named by ?branch=, or main's, so that If-Match works for that branch.
+  private async withETag(request: Request, response: Response): Promise<Response> {
+    if (!response.ok) {
+      return response;
+    }
+    const meta = await this.store.getMeta();
+    const branchName = branchParam(request);
+    // Deleting the branch itself leaves main's head
+    const head = branchName && meta.branches[branchName] ? meta.branches[branchName].head : mainHead(meta);
+    const etag = formatETag(head, meta.revision);
+
+    if (request.method === 'GET' && matchesIfNoneMatch(request.headers.get('If-None-Match'), etag)) {
+      return new Response(null, { status: 304, headers: { ETag: etag } });
+    }
+
+    const tagged = new Response(response.body, response);
+    tagged.headers.set('ETag', etag);
+    return tagged;
+  }
+
+  // Check the caller's bearer token against the role a route requires
+  private async authorize(request: Request, role: Role): Promise<Identity> {
+    return authorize(request, this.env.AUTH_SECRET, role);
+  }
+
+  // Expected base version from the If-Match header, or from the request body as a fallback
+  private getBaseVersion(request: Request, bodyBaseVersion?: number): number | undefined {
+    return parseIfMatchVersion(request.headers.get('If-Match')) ?? bodyBaseVersion;
+  }
   
+  // Rewrite stored content as snapshots and patches and report the space it saved
+  async compactStorage(): Promise<CompactionReport> {
+    const report = await this.store.compact();
+    await this.store.touch();
+    return report;
+  }
+
+  // Remove every key this document holds but its audit log - used when the document is deleted from
+  // the registry. Returns what was deleted, for the audit entry that records it.
+  async deleteDocument(): Promise<{ versions: number; channels: { [name: string]: Channel } }> {
+    const meta = await this.store.getMeta();
+    const deleted = { versions: (await this.store.listSummaries()).length, channels: await this.getChannels(meta) };
+    for (const socket of this.state.getWebSockets()) {
+      socket.close(1000, 'Document deleted');
+    }
+    await this.state.storage.deleteAlarm();
+    await this.store.clearDocument();
+    return deleted;
+  }
+
   private async handleRequest(request: Request, parts: string[]): Promise<Response> {
     const path = parts.join('/');
+    // Every route is scoped to a document: content/{documentId}/...
+    const doc = parts[1];
     console.log('Handling request:');
     console.log('- Method + Path:', `${request.method} ${path}`);
-    console.log('- Looking for match:', `POST content/default/versions/${parts[3]}/publish`);
   
     switch (`${request.method} ${path}`) {
       
-      case 'POST content': {
-        const body = await request.json() as CreateVersionRequest;
-        const version = await this.createVersion(body.content, body.message);
+      case `POST content/${doc}/versions`: {
+        const identity = await this.authorize(request, 'editor');
+        const body = await parseBody(request, 'createVersion');
+        const baseVersion = this.getBaseVersion(request, body.baseVersion);
+        const content = await this.resolveContent(body, baseVersion);
+        const version = await this.createVersion(content, body.message, body.branch ?? branchParam(request), baseVersion, identity.sub);
+        await this.audit(identity, {
+          action: 'version.create',
+          target: { type: 'version', id: String(version.id) },
+          after: toSummary(version)
+        }, request);
         return Response.json(version);
-    }
+      }
   
-      case 'GET content/default': {
-        const data = await this.initialize();
-        if (!data.currentVersion) {
-          return Response.json(null);
+      case `GET content/${doc}`: {
+        await this.authorize(request, 'viewer');
+        const meta = await this.store.getMeta();
+        const versionId = (await this.getChannels(meta))[DEFAULT_CHANNEL]?.versionId;
+        const version = versionId ? await this.getVersion(versionId) : null;
+        if (!version) {
+          throw new NotFoundError("No version is published");
         }
-        const version = await this.getVersion(data.currentVersion);
         return Response.json(version);
       }
+
+      case `DELETE content/${doc}`: {
+        const identity = await this.authorize(request, 'admin');
+        const before = await this.deleteDocument();
+        // The audit log is kept, this entry marks where the history it describes ends
+        await this.audit(identity, { action: 'document.delete', target: { type: 'document', id: doc }, before }, request);
+        return Response.json({ success: true });
+      }
+
+      case `POST content/${doc}/compact`: {
+        const identity = await this.authorize(request, 'admin');
+        const report = await this.compactStorage();
+        await this.audit(identity, { action: 'document.compact', target: { type: 'document', id: doc }, after: report }, request);
+        return Response.json(report);
+      }
   
-      case 'GET content/default/versions': {
-        const versions = await this.getVersions();
+      case `GET content/${doc}/search`: {
+        await this.authorize(request, 'viewer');
+        const query = parseSearchParams(new URL(request.url).searchParams);
+        const results = await this.search(query);
+        return Response.json(results);
+      }
+
+      case `GET content/${doc}/versions`: {
+        await this.authorize(request, 'viewer');
+        const query = parseVersionQuery(new URL(request.url).searchParams);
+        const versions = await this.listVersions(query);
         return Response.json(versions);
       }
+
+      case `POST content/${doc}/versions/${parts[3]}/archive`: {
+        const identity = await this.authorize(request, 'editor');
+        const before = await this.store.getSummary(parseVersionId(parts[3]));
+        const version = await this.archiveVersion(parseVersionId(parts[3]));
+        await this.audit(identity, {
+          action: 'version.archive',
+          target: { type: 'version', id: String(version.id) },
+          before,
+          after: toSummary(version)
+        }, request);
+        return Response.json(version);
+      }
+
+      case `POST content/${doc}/versions/${parts[3]}/restore`: {
+        const identity = await this.authorize(request, 'editor');
+        const before = await this.store.getSummary(parseVersionId(parts[3]));
+        const version = await this.restoreVersion(parseVersionId(parts[3]));
+        await this.audit(identity, {
+          action: 'version.restore',
+          target: { type: 'version', id: String(version.id) },
+          before,
+          after: toSummary(version)
+        }, request);
+        return Response.json(version);
+      }
   
-      case `GET content/default/versions/${parts[3]}`: {
-        const version = await this.getVersion(parseInt(parts[3]));
+      case `GET content/${doc}/versions/${parts[3]}`: {
+        await this.authorize(request, 'viewer');
+        const versionId = parseVersionId(parts[3]);
+        const version = await this.getVersion(versionId);
+        if (!version) {
+          throw new NotFoundError(`Version ${versionId} not found`);
+        }
         return Response.json(version);
       }
   
-      case `DELETE content/default/versions/${parts[3]}`: {
-        const versionId = parseInt(parts[3]);
+      case `DELETE content/${doc}/versions/${parts[3]}`: {
+        const identity = await this.authorize(request, 'admin');
+        const versionId = parseVersionId(parts[3]);
+        const before = await this.store.getSummary(versionId);
         const result = await this.deleteVersion(versionId);
+        await this.audit(identity, { action: 'version.delete', target: { type: 'version', id: String(versionId) }, before }, request);
         return Response.json(result);
       }
   
-      case 'GET content/versions/tags': {
+      case `GET content/${doc}/tags`: {
+        await this.authorize(request, 'viewer');
         const tags = await this.getTags();
         return Response.json(tags);
       }
   
-      case `GET content/versions/${parts[2]}/tags`: {
-        const versionId = parseInt(parts[2]);
+      case `GET content/${doc}/versions/${parts[3]}/tags`: {
+        await this.authorize(request, 'viewer');
+        const versionId = parseVersionId(parts[3]);
         const tags = await this.getVersionTags(versionId);
         return Response.json(tags);
       }
   
-      case 'POST content/versions/tags': {
-        const { versionId, name } = await request.json() as CreateTagRequest;
+      case `POST content/${doc}/tags`: {
+        const identity = await this.authorize(request, 'editor');
+        const { versionId, name } = await parseBody(request, 'createTag');
         const tag = await this.createTag(versionId, name);
+        await this.audit(identity, { action: 'tag.create', target: { type: 'tag', id: tag.name }, after: tag }, request);
         return Response.json(tag);
       }
   
-      case `PUT content/versions/tags/${parts[3]}`: {
-        const body = await request.json() as UpdateTagRequest;
+      case `PUT content/${doc}/tags/${parts[3]}`: {
+        const identity = await this.authorize(request, 'editor');
+        const body = await parseBody(request, 'updateTag');
+        const before = (await this.store.getTags())[parts[3]];
         const tag = await this.updateTag(parts[3], body.newName);
+        await this.audit(identity, { action: 'tag.rename', target: { type: 'tag', id: parts[3] }, before, after: tag }, request);
         return Response.json(tag);
       }
   
-      case `DELETE content/versions/tags/${parts[3]}`: {
+      case `DELETE content/${doc}/tags/${parts[3]}`: {
+        const identity = await this.authorize(request, 'editor');
+        const before = (await this.store.getTags())[parts[3]];
         const result = await this.deleteTag(parts[3]);
+        await this.audit(identity, { action: 'tag.delete', target: { type: 'tag', id: parts[3] }, before }, request);
         return Response.json(result);
       }
   
-      case `POST content/default/versions/${parts[3]}/publish`: {
-        try {
-          console.log('Attempting to publish version');
-          console.log('Raw request body:', await request.clone().text());
-          const { publishedBy } = await request.json() as PublishVersionRequest;
-          console.log('Parsed publishedBy:', publishedBy);
-          const result = await this.publishVersion(parseInt(parts[3]), publishedBy);
-          return Response.json(result);
-        } catch (err) {
-          const error = err as Error;
-          console.error('Error in publish handler:', error);
-          return new Response(error.message, { status: 500 });
-        }
+      case `POST content/${doc}/versions/${parts[3]}/publish`: {
+        const identity = await this.authorize(request, 'publisher');
+        console.log('Attempting to publish version');
+        const { baseVersion, channel } = await parseBody(request, 'publishVersion');
+        const versionId = parseVersionId(parts[3]);
+        const before = await this.store.getSummary(versionId);
+        const result = await this.publishVersion(versionId, identity.sub, this.getBaseVersion(request, baseVersion), { channel });
+        await this.audit(identity, {
+          action: 'version.publish',
+          target: { type: 'version', id: String(versionId) },
+          before,
+          after: { ...await this.store.getSummary(versionId), channel: result.channel }
+        }, request);
+        return Response.json(result);
+      }
+  
+      case `POST content/${doc}/versions/${parts[3]}/unpublish`: {
+        const identity = await this.authorize(request, 'publisher');
+        const channel = new URL(request.url).searchParams.get('channel') || DEFAULT_CHANNEL;
+        const before = await this.store.getSummary(parseVersionId(parts[3]));
+        const result = await this.unpublishVersion(parseVersionId(parts[3]), identity.sub, undefined, channel);
+        await this.audit(identity, {
+          action: 'version.unpublish',
+          target: { type: 'version', id: String(result.id) },
+          before,
+          after: { ...toSummary(result), channel }
+        }, request);
+        return Response.json(result);
+      }
+  
+      case `POST content/${doc}/versions/${parts[3]}/review`: {
+        const identity = await this.authorize(request, 'editor');
+        const body = await parseBody(request, 'submitReview');
+        const before = await this.store.getSummary(parseVersionId(parts[3]));
+        const version = await this.submitForReview(parseVersionId(parts[3]), body.reviewers, identity.sub);
+        await this.audit(identity, {
+          action: 'version.submit',
+          target: { type: 'version', id: String(version.id) },
+          before,
+          after: toSummary(version)
+        }, request);
+        return Response.json(version);
+      }
+
+      case `POST content/${doc}/versions/${parts[3]}/approve`: {
+        const identity = await this.authorize(request, 'editor');
+        const body = await parseBody(request, 'reviewDecision');
+        const before = await this.store.getSummary(parseVersionId(parts[3]));
+        const version = await this.reviewVersion(parseVersionId(parts[3]), identity, 'approved', body.comment);
+        await this.audit(identity, {
+          action: 'version.approve',
+          target: { type: 'version', id: String(version.id) },
+          before,
+          after: toSummary(version)
+        }, request);
+        return Response.json(version);
+      }
+
+      case `POST content/${doc}/versions/${parts[3]}/reject`: {
+        const identity = await this.authorize(request, 'editor');
+        const body = await parseBody(request, 'reviewDecision');
+        const before = await this.store.getSummary(parseVersionId(parts[3]));
+        const version = await this.reviewVersion(parseVersionId(parts[3]), identity, 'rejected', body.comment);
+        await this.audit(identity, {
+          action: 'version.reject',
+          target: { type: 'version', id: String(version.id) },
+          before,
+          after: toSummary(version)
+        }, request);
+        return Response.json(version);
+      }
+
+      case `GET content/${doc}/review-settings`: {
+        await this.authorize(request, 'viewer');
+        const settings = await this.getReviewSettings();
+        return Response.json(settings);
+      }
+
+      case `PUT content/${doc}/review-settings`: {
+        const identity = await this.authorize(request, 'admin');
+        const body = await parseBody(request, 'reviewSettings');
+        const before = await this.getReviewSettings();
+        const settings = await this.updateReviewSettings(body);
+        await this.audit(identity, {
+          action: 'settings.review',
+          target: { type: 'settings', id: 'review' },
+          before,
+          after: settings
+        }, request);
+        return Response.json(settings);
+      }
+  
+      case `GET content/${doc}/content-type`: {
+        await this.authorize(request, 'viewer');
+        const settings = await this.getContentType();
+        return Response.json(settings);
+      }
+
+      case `PUT content/${doc}/content-type`: {
+        const identity = await this.authorize(request, 'admin');
+        const body = await parseBody(request, 'contentType');
+        const before = await this.getContentType();
+        const settings = await this.updateContentType(body);
+        await this.audit(identity, {
+          action: 'settings.content-type',
+          target: { type: 'settings', id: 'content-type' },
+          before,
+          after: settings
+        }, request);
+        return Response.json(settings);
+      }
+
+      // Written by the worker after the registry record changes, which is where the change is audited
+      case `PUT content/${doc}/page`: {
+        await this.authorize(request, 'editor');
+        const body = await parseBody(request, 'pageSettings');
+        const settings = await this.updatePageSettings(body);
+        return Response.json(settings);
+      }
+
+      case `GET content/${doc}/versions/${parts[3]}/validation`: {
+        await this.authorize(request, 'viewer');
+        const validation = await this.validateVersion(parseVersionId(parts[3]));
+        return Response.json(validation);
       }
   
-      case `POST content/default/versions/${parts[3]}/unpublish`: {
-        const result = await this.unpublishVersion(parseInt(parts[3]));
+      case `GET content/${doc}/events`: {
+        const params = new URL(request.url).searchParams;
+        // Browsers cannot set headers on a WebSocket handshake, so the token may come in the query string
+        const token = params.get('token');
+        await this.authorize(token && !request.headers.has('Authorization')
+          ? new Request(request.url, { headers: { Authorization: `Bearer ${token}` } })
+          : request, 'viewer');
+        const since = parseIntegerParam(params, 'since', 0, "since must be a non-negative event id");
+        if (request.headers.get('Upgrade')?.toLowerCase() === 'websocket') {
+          return this.openFeed(since);
+        }
+        // Without an upgrade, the log since the given event id is returned for polling clients
+        const messages = await this.getEventsSince(since);
+        return Response.json(messages);
+      }
+
+      case `GET content/${doc}/export`: {
+        await this.authorize(request, 'admin');
+        const archive = await this.exportDocument(doc);
+        return new Response(archive, {
+          headers: {
+            'Content-Type': 'application/x-ndjson',
+            'Content-Disposition': `attachment; filename="${doc}-history.ndjson"`
+          }
+        });
+      }
+
+      case `POST content/${doc}/import`: {
+        const identity = await this.authorize(request, 'admin');
+        const mode = new URL(request.url).searchParams.get('mode') || 'merge';
+        if (!IMPORT_MODES.includes(mode as ImportMode)) {
+          throw new BadRequestError(`mode must be one of: ${IMPORT_MODES.join(', ')}`);
+        }
+        const report = await this.importDocument(await request.text(), mode as ImportMode, doc);
+        await this.audit(identity, { action: 'document.import', target: { type: 'document', id: doc }, after: report }, request);
+        return Response.json(report);
+      }
+
+      case `GET content/${doc}/audit`: {
+        await this.authorize(request, 'admin');
+        const query = parseAuditQuery(new URL(request.url).searchParams);
+        const page = await this.getAuditLog(query);
+        return Response.json(page);
+      }
+
+      case `GET content/${doc}/audit/export`: {
+        await this.authorize(request, 'admin');
+        const query = parseAuditQuery(new URL(request.url).searchParams);
+        const ndjson = await this.exportAuditLog(query);
+        return new Response(ndjson, {
+          headers: {
+            'Content-Type': 'application/x-ndjson',
+            'Content-Disposition': `attachment; filename="${doc}-audit.ndjson"`
+          }
+        });
+      }
+
+      case `GET content/${doc}/audit/verify`: {
+        await this.authorize(request, 'admin');
+        const verification = await this.verifyAuditLog();
+        return Response.json(verification);
+      }
+
+      case `GET content/${doc}/webhooks`: {
+        await this.authorize(request, 'admin');
+        const webhooks = await this.getWebhooks();
+        return Response.json(webhooks);
+      }
+
+      case `POST content/${doc}/webhooks`: {
+        const identity = await this.authorize(request, 'admin');
+        const body = await parseBody(request, 'createWebhook');
+        const webhook = await this.createWebhook(body, doc, identity.sub);
+        await this.audit(identity, {
+          action: 'webhook.create',
+          target: { type: 'webhook', id: webhook.id },
+          after: toWebhookView(webhook)
+        }, request);
+        return Response.json(webhook, { status: 201 });
+      }
+
+      case `DELETE content/${doc}/webhooks/${parts[3]}`: {
+        const identity = await this.authorize(request, 'admin');
+        const webhook = await this.store.getWebhook(parts[3]);
+        const result = await this.deleteWebhook(parts[3]);
+        await this.audit(identity, {
+          action: 'webhook.delete',
+          target: { type: 'webhook', id: parts[3] },
+          before: webhook && toWebhookView(webhook)
+        }, request);
         return Response.json(result);
       }
+
+      case `GET content/${doc}/webhooks/${parts[3]}/deliveries`: {
+        await this.authorize(request, 'admin');
+        const deliveries = await this.getDeliveries(parts[3], new URL(request.url).searchParams.get('status') || undefined);
+        return Response.json(deliveries);
+      }
+
+      case `GET content/${doc}/deliveries`: {
+        await this.authorize(request, 'admin');
+        const params = new URL(request.url).searchParams;
+        const deliveries = await this.getDeliveries(params.get('webhookId') || undefined, params.get('status') || undefined);
+        return Response.json(deliveries);
+      }
+
+      case `GET content/${doc}/schedules`: {
+        await this.authorize(request, 'viewer');
+        const schedules = await this.getSchedules(new URL(request.url).searchParams.get('status') || undefined);
+        return Response.json(schedules);
+      }
+
+      case `POST content/${doc}/schedules`: {
+        const identity = await this.authorize(request, 'publisher');
+        const body = await parseBody(request, 'createSchedule');
+        const schedule = await this.createSchedule(body, identity.sub, doc, new URL(request.url).origin);
+        await this.audit(identity, { action: 'schedule.create', target: { type: 'schedule', id: schedule.id }, after: schedule }, request);
+        return Response.json(schedule);
+      }
+
+      case `DELETE content/${doc}/schedules/${parts[3]}`: {
+        const identity = await this.authorize(request, 'publisher');
+        const before = await this.store.getSchedule(parts[3]);
+        const schedule = await this.cancelSchedule(parts[3]);
+        await this.audit(identity, {
+          action: 'schedule.cancel',
+          target: { type: 'schedule', id: schedule.id },
+          before,
+          after: schedule
+        }, request);
+        return Response.json(schedule);
+      }
   
-      case 'GET content/default/publish-history': {
-        const history = await this.getPublishHistory();
+      case `GET content/${doc}/publish-history`: {
+        await this.authorize(request, 'viewer');
+        const history = await this.getPublishHistory(new URL(request.url).searchParams.get('channel') || undefined);
         return Response.json(history);
       }
+
+      case `POST content/${doc}/previews`: {
+        const identity = await this.authorize(request, 'editor');
+        const body = await parseBody(request, 'createPreview');
+        const link = await this.createPreviewLink(body, doc, new URL(request.url).origin);
+        // The link itself is a credential, it is left out of the log
+        await this.audit(identity, {
+          action: 'version.preview',
+          target: { type: 'version', id: String(link.versionId) },
+          after: { tag: link.tag, expiresAt: link.expiresAt }
+        }, request);
+        return Response.json(link, { status: 201 });
+      }
+
+      case `GET content/${doc}/channels`: {
+        await this.authorize(request, 'viewer');
+        const channels = await this.listChannels();
+        return Response.json(channels);
+      }
+
+      case `GET content/${doc}/channels/${parts[3]}`: {
+        await this.authorize(request, 'viewer');
+        const channel = await this.getChannel(parts[3]);
+        return Response.json(channel);
+      }
+
+      case `GET content/${doc}/published`: {
+        await this.authorize(request, 'viewer');
+        const published = await this.getPublishedVersion(new URL(request.url).searchParams.get('channel') || DEFAULT_CHANNEL);
+        return Response.json(published);
+      }
+
+      case `POST content/${doc}/channels/${parts[3]}/promote`: {
+        const identity = await this.authorize(request, 'publisher');
+        const body = await parseBody(request, 'promoteChannel');
+        const before = (await this.store.getMeta()).channels?.[parts[3]];
+        const record = await this.promoteChannel(parts[3], body.from, identity.sub, this.getBaseVersion(request, body.baseVersion));
+        await this.audit(identity, {
+          action: 'channel.promote',
+          target: { type: 'channel', id: parts[3] },
+          before,
+          after: await this.getChannel(parts[3])
+        }, request);
+        return Response.json(record);
+      }
+
+      case `DELETE content/${doc}/channels/${parts[3]}`: {
+        const identity = await this.authorize(request, 'admin');
+        const before = await this.getChannel(parts[3]);
+        const result = await this.deleteChannel(parts[3]);
+        await this.audit(identity, { action: 'channel.delete', target: { type: 'channel', id: parts[3] }, before }, request);
+        return Response.json(result);
+      }
   
-      case `GET content/default/versions/${parts[3]}/diff`: {
-        const compareToId = parseInt(new URL(request.url).searchParams.get('compare') || '0');
+      case `GET content/${doc}/versions/${parts[3]}/diff`: {
+        await this.authorize(request, 'viewer');
+        const params = new URL(request.url).searchParams;
+        const compareToId = params.get('compare') ? parseVersionId(params.get('compare') as string) : 0;
+        const mode = params.get('mode');
+        if (mode) {
+          if (!DIFF_MODES.includes(mode as DiffMode)) {
+            throw new BadRequestError(`Invalid diff mode, expected one of: ${DIFF_MODES.join(', ')}`);
+          }
+          const diff = await this.getInlineDiff(parseVersionId(parts[3]), mode as DiffMode, compareToId);
+          if (params.get('format') === 'html') {
+            return new Response(renderInlineDiffHtml(diff.changes), {
+              headers: { 'Content-Type': 'text/html; charset=utf-8' }
+            });
+          }
+          return Response.json(diff);
+        }
         if (compareToId) {
-          return await this.getDiff(parseInt(parts[3]), compareToId);
+          return await this.getDiff(parseVersionId(parts[3]), compareToId);
         }
-        const diff = await this.compareVersions(parseInt(parts[3]), parseInt(parts[3]) - 1);
+        const diff = await this.compareVersions(parseVersionId(parts[3]), parseVersionId(parts[3]) - 1);
         return Response.json(diff);
       }
   
-      case `POST content/default/revert`: {
-        const body = await request.json() as RevertVersionRequest;
-        const version = await this.revertTo(body.versionId);
+      case `GET content/${doc}/versions/${parts[3]}/blame`: {
+        await this.authorize(request, 'viewer');
+        const blame = await this.getBlame(parseVersionId(parts[3]));
+        if (new URL(request.url).searchParams.get('format') === 'html') {
+          return new Response(renderBlameHtml(blame), {
+            headers: { 'Content-Type': 'text/html; charset=utf-8' }
+          });
+        }
+        return Response.json(blame);
+      }
+  
+      case `POST content/${doc}/revert`: {
+        const identity = await this.authorize(request, 'editor');
+        const body = await parseBody(request, 'revertVersion');
+        const version = await this.revertTo(body.versionId, body.branch ?? branchParam(request), this.getBaseVersion(request, body.baseVersion), identity.sub);
+        await this.audit(identity, {
+          action: 'version.revert',
+          target: { type: 'version', id: String(version.id) },
+          after: { ...toSummary(version), revertedTo: body.versionId }
+        }, request);
         return Response.json(version);
       }
+
+      case `GET content/${doc}/branches`: {
+        await this.authorize(request, 'viewer');
+        const branches = await this.getBranches();
+        return Response.json(branches);
+      }
+
+      case `POST content/${doc}/branches`: {
+        const identity = await this.authorize(request, 'editor');
+        const body = await parseBody(request, 'createBranch');
+        const branch = await this.createBranch(body.name, body.fromVersion);
+        await this.audit(identity, { action: 'branch.create', target: { type: 'branch', id: branch.name }, after: branch }, request);
+        return Response.json(branch);
+      }
+
+      case `DELETE content/${doc}/branches/${parts[3]}`: {
+        const identity = await this.authorize(request, 'editor');
+        const name = decodeURIComponent(parts[3]);
+        const before = (await this.store.getMeta()).branches[name];
+        const result = await this.deleteBranch(name);
+        await this.audit(identity, { action: 'branch.delete', target: { type: 'branch', id: name }, before }, request);
+        return Response.json(result);
+      }
+
+      case `POST content/${doc}/merge`: {
+        const identity = await this.authorize(request, 'editor');
+        const body = await parseBody(request, 'merge');
+        const before = (await this.store.getMeta()).branches[body.target || DEFAULT_BRANCH];
+        const result = await this.mergeBranches(body.source, body.target, { ...body, author: identity.sub });
+        // Conflicts, previews and branches already up to date leave the target as it was
+        if (result.status === 'merged' || (result.status === 'fast-forward' && body.commit !== false)) {
+          await this.audit(identity, {
+            action: 'version.merge',
+            target: { type: 'branch', id: result.target },
+            before,
+            after: {
+              ...(await this.store.getMeta()).branches[result.target],
+              status: result.status,
+              source: result.source,
+              version: result.version && toSummary(result.version)
+            }
+          }, request);
+        }
+        return Response.json(result, { status: result.status === 'conflict' ? 409 : 200 });
+      }
   
       default:
-        return new Response('No route matched: ' + request.method + ' ' + path, { status: 404 });
+        throw new NotFoundError('No route matched: ' + request.method + ' ' + path);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,578 @@
+import { listAuditEntries } from './audit';
+import { applyContentPatch, calculateDetailedDiff, expandDiff } from './diff';
+import {
+  AuditEntry,
+  Branch,
+  ChangeEvent,
+  CompactionReport,
+  ContentDiff,
+  ContentState,
+  DocumentMeta,
+  PublishRecord,
+  Schedule,
+  StoredContent,
+  StoredDiff,
+  Tag,
+  Version,
+  VersionContent,
+  VersionListItem,
+  Webhook,
+  WebhookDelivery
+} from './types';
+
+// Storage layout of a document, one Durable Object per document:
+//
+//   meta              DocumentMeta - heads, id counters, settings
+//   version:<id>      VersionListItem - everything about a version except its content and diff
+//   content:<id>      StoredContent - the content of a version, as a snapshot or a patch
+//   tags              { [name]: Tag }
+//   publish:<seq>     PublishRecord, in publish order
+//   schedule:<id>     Schedule
+//   term:<f>:<word>   number[] - ids of the versions whose content (c) or message (m) contain a word
+//   webhook:<id>      Webhook
+//   delivery:<id>     WebhookDelivery, ids start with the creation time so they list in order
+//   event:<id>        ChangeEvent, the most recent events only
+//   audit:<id>        AuditEntry, never updated or removed, kept when the document is deleted
+//
+// Ids in keys are zero padded so that list() returns them in order. Documents written before the
+// split keep everything under the single "content" key; it is migrated the first time it is read.
+const META_KEY = 'meta';
+const LEGACY_KEY = 'content';
+const VERSION_PREFIX = 'version:';
+const CONTENT_PREFIX = 'content:';
+const TAGS_KEY = 'tags';
+const PUBLISH_PREFIX = 'publish:';
+const SCHEDULE_PREFIX = 'schedule:';
+const TERM_PREFIX = 'term:';
+const WEBHOOK_PREFIX = 'webhook:';
+const DELIVERY_PREFIX = 'delivery:';
+const EVENT_PREFIX = 'event:';
+
+// Durable Object storage reads and writes at most 128 keys per call
+const BATCH_SIZE = 128;
+
+// Longest run of patches between two full snapshots, which bounds the work of rebuilding a version
+const SNAPSHOT_INTERVAL = 10;
+
+export const DEFAULT_BRANCH = 'main';
+// Channel of the version with the published status, and of the public routes without ?channel=
+export const DEFAULT_CHANNEL = 'production';
+
+function pad(id: number): string {
+  return String(id).padStart(10, '0');
+}
+
+function chunk<T>(items: T[], size: number = BATCH_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Records written before delta compression carry the full content and diff, and no depth
+type ContentRecord = StoredContent | VersionContent;
+
+function isStoredContent(record: ContentRecord): record is StoredContent {
+  return typeof (record as StoredContent).depth === 'number';
+}
+
+// Approximate storage size of a value
+function byteSize(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length;
+}
+
+function toStoredDiff(diff: ContentDiff | StoredDiff): StoredDiff {
+  return { patch: diff.patch, changes: diff.changes };
+}
+
+// Store a version as a patch against its base, or as a snapshot when it has no base, the run of
+// patches is long enough, or the patch would not be smaller than the content itself.
+// The diff of a version is always computed against its first parent, so its patch rebuilds it.
+function encodeContent(content: string, diff: ContentDiff | StoredDiff | undefined, base: number | undefined, baseDepth: number | undefined): StoredContent {
+  const storedDiff = diff ? toStoredDiff(diff) : undefined;
+  const depth = baseDepth === undefined ? 0 : baseDepth + 1;
+  if (!storedDiff || !base || depth >= SNAPSHOT_INTERVAL || storedDiff.patch.length >= content.length) {
+    return { base, content, depth: 0, diff: storedDiff };
+  }
+  return { base, depth, diff: storedDiff };
+}
+
+export function toSummary(version: Version | VersionListItem): VersionListItem {
+  const summary: Partial<Version> = { ...version };
+  delete summary.content;
+  delete summary.diff;
+  return summary as VersionListItem;
+}
+
+export class ContentStore {
+  private storage: DurableObjectStorage;
+
+  constructor(storage: DurableObjectStorage) {
+    this.storage = storage;
+  }
+
+  // Read the document meta, creating it (or migrating the legacy single-key state) on first load
+  async getMeta(): Promise<DocumentMeta> {
+    const meta = await this.storage.get<DocumentMeta>(META_KEY);
+    if (meta) {
+      return meta;
+    }
+
+    const legacy = await this.storage.get<ContentState>(LEGACY_KEY);
+    if (legacy) {
+      return this.migrate(legacy);
+    }
+
+    const initialMeta: DocumentMeta = {
+      nextVersionId: 1,
+      revision: 0,
+      publishSequence: 0,
+      reviewSettings: { requiredApprovals: 0 },
+      searchIndexed: true,
+      branches: {
+        [DEFAULT_BRANCH]: {
+          name: DEFAULT_BRANCH,
+          head: 0,
+          createdAt: new Date().toISOString()
+        }
+      }
+    };
+    await this.storage.put(META_KEY, initialMeta);
+    return initialMeta;
+  }
+
+  // Persist the meta and bump its revision so ETags change on every write
+  async saveMeta(meta: DocumentMeta): Promise<void> {
+    meta.revision++;
+    await this.storage.put(META_KEY, meta);
+  }
+
+  // Record a write that only touched keys outside the meta
+  async touch(): Promise<void> {
+    await this.saveMeta(await this.getMeta());
+  }
+
+  // Split the legacy single-key state into separate keys
+  private async migrate(legacy: ContentState): Promise<DocumentMeta> {
+    let branches: { [name: string]: Branch } | undefined = legacy.branches;
+    let versions = legacy.versions;
+    if (!branches) {
+      // Written before branches existed: the versions form a single line on main
+      let previousId = 0;
+      versions = versions.map(v => {
+        const parents = previousId ? [previousId] : [];
+        previousId = v.id;
+        return { ...v, parents, branch: DEFAULT_BRANCH };
+      });
+      branches = {
+        [DEFAULT_BRANCH]: {
+          name: DEFAULT_BRANCH,
+          head: previousId,
+          createdAt: new Date().toISOString()
+        }
+      };
+    }
+
+    const history = legacy.publishHistory || [];
+    const entries: [string, unknown][] = [
+      ...versions.map((v): [string, unknown] => [`${VERSION_PREFIX}${pad(v.id)}`, toSummary(v)]),
+      ...versions.map((v): [string, unknown] => [`${CONTENT_PREFIX}${pad(v.id)}`, { content: v.content, diff: v.diff }]),
+      ...history.map((record, i): [string, unknown] => [`${PUBLISH_PREFIX}${pad(i + 1)}`, record]),
+      ...(legacy.schedules || []).map((s): [string, unknown] => [`${SCHEDULE_PREFIX}${s.id}`, s]),
+      [TAGS_KEY, legacy.tags || {}]
+    ];
+    for (const batch of chunk(entries)) {
+      await this.storage.put(Object.fromEntries(batch));
+    }
+
+    const meta: DocumentMeta = {
+      nextVersionId: versions.length > 0 ? Math.max(...versions.map(v => v.id)) + 1 : 1,
+      revision: legacy.revision || 0,
+      publishSequence: history.length,
+      reviewSettings: legacy.reviewSettings || { requiredApprovals: 0 },
+      branches
+    };
+    await this.storage.put(META_KEY, meta);
+    await this.storage.delete(LEGACY_KEY);
+    return meta;
+  }
+
+  // Versions
+
+  async listSummaries(): Promise<VersionListItem[]> {
+    const entries = await this.storage.list<VersionListItem>({ prefix: VERSION_PREFIX });
+    return [...entries.values()];
+  }
+
+  async getSummary(id: number): Promise<VersionListItem | undefined> {
+    return this.storage.get<VersionListItem>(`${VERSION_PREFIX}${pad(id)}`);
+  }
+
+  async getVersion(id: number): Promise<Version | undefined> {
+    const summary = await this.getSummary(id);
+    if (!summary) {
+      return undefined;
+    }
+    return this.withContent(summary, new Map());
+  }
+
+  // Full versions for a set of summaries, in the same order.
+  // Rebuilt contents are shared, so versions on the same run of patches are only rebuilt once.
+  async getVersions(summaries: VersionListItem[]): Promise<Version[]> {
+    const contents = new Map<number, string>();
+    const versions: Version[] = [];
+    for (const summary of summaries) {
+      versions.push(await this.withContent(summary, contents));
+    }
+    return versions;
+  }
+
+  private async withContent(summary: VersionListItem, contents: Map<number, string>): Promise<Version> {
+    const record = await this.getContentRecord(summary.id);
+    if (!record || !isStoredContent(record)) {
+      return { ...summary, content: record?.content ?? '', diff: record?.diff };
+    }
+
+    const content = await this.rebuildContent(summary.id, contents);
+    if (!record.diff) {
+      return { ...summary, content };
+    }
+    const from = record.base ? await this.rebuildContent(record.base, contents) : '';
+    return { ...summary, content, diff: expandDiff(from, content, record.diff) };
+  }
+
+  private async getContentRecord(id: number): Promise<ContentRecord | undefined> {
+    return this.storage.get<ContentRecord>(`${CONTENT_PREFIX}${pad(id)}`);
+  }
+
+  // Walk back to the nearest snapshot, then apply the patches forward
+  private async rebuildContent(id: number, contents: Map<number, string>): Promise<string> {
+    const patches: Array<[number, string]> = [];
+    let current: number | undefined = id;
+    let content: string | undefined;
+    while (content === undefined) {
+      if (current === undefined) {
+        throw new Error(`Content of version ${id} cannot be rebuilt: its chain of patches is broken`);
+      }
+      const cached = contents.get(current);
+      if (cached !== undefined) {
+        content = cached;
+        break;
+      }
+      const record: ContentRecord | undefined = await this.getContentRecord(current);
+      if (!record) {
+        throw new Error(`Content of version ${current} is missing`);
+      }
+      if (record.content !== undefined) {
+        content = record.content;
+        contents.set(current, content);
+        break;
+      }
+      patches.push([current, (record as StoredContent).diff?.patch || '']);
+      current = (record as StoredContent).base;
+    }
+
+    for (const [versionId, patch] of patches.reverse()) {
+      content = applyContentPatch(content, patch);
+      contents.set(versionId, content);
+    }
+    return content;
+  }
+
+  async putVersion(version: Version): Promise<void> {
+    const base = version.parents[0];
+    const baseRecord = base ? await this.getContentRecord(base) : undefined;
+    // Records from before delta compression hold full content and count as snapshots
+    const baseDepth = baseRecord ? (isStoredContent(baseRecord) ? baseRecord.depth : 0) : undefined;
+    await this.storage.put({
+      [`${VERSION_PREFIX}${pad(version.id)}`]: toSummary(version),
+      [`${CONTENT_PREFIX}${pad(version.id)}`]: encodeContent(version.content, version.diff, baseRecord ? base : undefined, baseDepth)
+    });
+  }
+
+  // Update the status, review or parents of versions without rewriting their content
+  async putSummaries(versions: Array<Version | VersionListItem>): Promise<void> {
+    const entries = versions.map((v): [string, VersionListItem] => [`${VERSION_PREFIX}${pad(v.id)}`, toSummary(v)]);
+    for (const batch of chunk(entries)) {
+      await this.storage.put(Object.fromEntries(batch));
+    }
+  }
+
+  // Versions stored as patches against this one must be rewritten with putVersion first
+  async deleteVersion(id: number): Promise<void> {
+    await this.storage.delete([`${VERSION_PREFIX}${pad(id)}`, `${CONTENT_PREFIX}${pad(id)}`]);
+  }
+
+  // Rewrite the content of every version as snapshots and patches against the first parent,
+  // converting records written before delta compression and dropping records without a version
+  async compact(): Promise<CompactionReport> {
+    const summaries = await this.listSummaries();
+    const records = new Map<string, ContentRecord>();
+    for (const [key, record] of await this.storage.list<ContentRecord>({ prefix: CONTENT_PREFIX })) {
+      records.set(key, record);
+    }
+    const bytesBefore = [...records.values()].reduce((total, record) => total + byteSize(record), 0);
+
+    const contents = new Map<number, string>();
+    for (const summary of summaries) {
+      if (records.has(`${CONTENT_PREFIX}${pad(summary.id)}`)) {
+        contents.set(summary.id, await this.rebuildContent(summary.id, contents));
+      }
+    }
+
+    // Parents always have lower ids than their children, so bases are encoded before their dependents
+    const depths = new Map<number, number>();
+    const rewritten: Array<[string, StoredContent]> = [];
+    for (const summary of summaries) {
+      const key = `${CONTENT_PREFIX}${pad(summary.id)}`;
+      const content = contents.get(summary.id);
+      if (content === undefined) {
+        continue;
+      }
+      const base = summary.parents[0];
+      let diff: StoredDiff | undefined;
+      if (base !== undefined && contents.has(base)) {
+        // Recompute the patch against the first parent, keeping when the change was made
+        const previous = records.get(key)?.diff;
+        diff = toStoredDiff(calculateDetailedDiff(contents.get(base) as string, content));
+        if (previous) {
+          diff.changes.timestamp = previous.changes.timestamp;
+        }
+      }
+      const stored = encodeContent(content, diff, diff ? base : undefined, diff ? depths.get(base) : undefined);
+      depths.set(summary.id, stored.depth);
+      rewritten.push([key, stored]);
+    }
+
+    const kept = new Set(rewritten.map(([key]) => key));
+    const orphans = [...records.keys()].filter(key => !kept.has(key));
+    for (const batch of chunk(rewritten)) {
+      await this.storage.put(Object.fromEntries(batch));
+    }
+    for (const batch of chunk(orphans)) {
+      await this.storage.delete(batch);
+    }
+
+    const bytesAfter = rewritten.reduce((total, [, record]) => total + byteSize(record), 0);
+    const snapshots = rewritten.filter(([, record]) => record.content !== undefined).length;
+    return {
+      versions: rewritten.length,
+      snapshots,
+      deltas: rewritten.length - snapshots,
+      orphansRemoved: orphans.length,
+      bytesBefore,
+      bytesAfter,
+      bytesSaved: bytesBefore - bytesAfter
+    };
+  }
+
+  // Drop the versions, tags, publish history, schedules and search index, keeping the meta,
+  // webhooks, change feed and audit log. Used before importing an archive over the document.
+  async clearHistory(): Promise<void> {
+    await this.deletePrefixes([VERSION_PREFIX, CONTENT_PREFIX, PUBLISH_PREFIX, SCHEDULE_PREFIX, TERM_PREFIX]);
+    await this.storage.delete(TAGS_KEY);
+  }
+
+  // Drop everything but the audit log, which outlives the document. Used when the document is deleted.
+  async clearDocument(): Promise<void> {
+    await this.clearHistory();
+    await this.deletePrefixes([WEBHOOK_PREFIX, DELIVERY_PREFIX, EVENT_PREFIX]);
+    await this.storage.delete([META_KEY, LEGACY_KEY]);
+  }
+
+  private async deletePrefixes(prefixes: string[]): Promise<void> {
+    for (const prefix of prefixes) {
+      const entries = await this.storage.list({ prefix });
+      for (const batch of chunk([...entries.keys()])) {
+        await this.storage.delete(batch);
+      }
+    }
+  }
+
+  // Tags
+
+  async getTags(): Promise<{ [name: string]: Tag }> {
+    return (await this.storage.get<{ [name: string]: Tag }>(TAGS_KEY)) || {};
+  }
+
+  async putTags(tags: { [name: string]: Tag }): Promise<void> {
+    await this.storage.put(TAGS_KEY, tags);
+  }
+
+  // Publish history
+
+  // Records of one channel, or of every channel
+  async getPublishHistory(channel?: string): Promise<PublishRecord[]> {
+    const entries = await this.storage.list<PublishRecord>({ prefix: PUBLISH_PREFIX });
+    return [...entries.values()].filter(record => !channel || (record.channel || DEFAULT_CHANNEL) === channel);
+  }
+
+  // The caller saves the meta, which carries the sequence number
+  async appendPublishRecord(meta: DocumentMeta, record: PublishRecord): Promise<void> {
+    meta.publishSequence++;
+    await this.storage.put(`${PUBLISH_PREFIX}${pad(meta.publishSequence)}`, record);
+  }
+
+  async deletePublishRecords(versionId: number, channel: string = DEFAULT_CHANNEL): Promise<void> {
+    const entries = await this.storage.list<PublishRecord>({ prefix: PUBLISH_PREFIX });
+    const keys = [...entries]
+      .filter(([, record]) => record.versionId === versionId && (record.channel || DEFAULT_CHANNEL) === channel)
+      .map(([key]) => key);
+    for (const batch of chunk(keys)) {
+      await this.storage.delete(batch);
+    }
+  }
+
+  // Schedules
+
+  async getSchedules(): Promise<Schedule[]> {
+    const entries = await this.storage.list<Schedule>({ prefix: SCHEDULE_PREFIX });
+    return [...entries.values()];
+  }
+
+  async getSchedule(id: string): Promise<Schedule | undefined> {
+    return this.storage.get<Schedule>(`${SCHEDULE_PREFIX}${id}`);
+  }
+
+  async putSchedule(schedule: Schedule): Promise<void> {
+    await this.storage.put(`${SCHEDULE_PREFIX}${schedule.id}`, schedule);
+  }
+
+  // Webhooks
+
+  async getWebhooks(): Promise<Webhook[]> {
+    const entries = await this.storage.list<Webhook>({ prefix: WEBHOOK_PREFIX });
+    return [...entries.values()];
+  }
+
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    return this.storage.get<Webhook>(`${WEBHOOK_PREFIX}${id}`);
+  }
+
+  async putWebhook(webhook: Webhook): Promise<void> {
+    await this.storage.put(`${WEBHOOK_PREFIX}${webhook.id}`, webhook);
+  }
+
+  async deleteWebhook(id: string): Promise<void> {
+    await this.storage.delete(`${WEBHOOK_PREFIX}${id}`);
+  }
+
+  async getDeliveries(): Promise<WebhookDelivery[]> {
+    const entries = await this.storage.list<WebhookDelivery>({ prefix: DELIVERY_PREFIX });
+    return [...entries.values()];
+  }
+
+  async putDeliveries(deliveries: WebhookDelivery[]): Promise<void> {
+    const entries = deliveries.map((d): [string, WebhookDelivery] => [`${DELIVERY_PREFIX}${d.id}`, d]);
+    for (const batch of chunk(entries)) {
+      await this.storage.put(Object.fromEntries(batch));
+    }
+  }
+
+  async deleteDeliveries(ids: string[]): Promise<void> {
+    for (const batch of chunk(ids.map(id => `${DELIVERY_PREFIX}${id}`))) {
+      await this.storage.delete(batch);
+    }
+  }
+
+  // Event log
+
+  // Store an event under the id after the latest one
+  async appendEvent(event: Omit<ChangeEvent, 'id'>): Promise<ChangeEvent> {
+    const logged: ChangeEvent = { id: await this.getLatestEventId() + 1, ...event };
+    await this.storage.put(`${EVENT_PREFIX}${pad(logged.id)}`, logged);
+    return logged;
+  }
+
+  async getEventsSince(since: number): Promise<ChangeEvent[]> {
+    const entries = await this.storage.list<ChangeEvent>({ prefix: EVENT_PREFIX, start: `${EVENT_PREFIX}${pad(since + 1)}` });
+    return [...entries.values()];
+  }
+
+  async getLatestEventId(): Promise<number> {
+    const [latest] = (await this.storage.list<ChangeEvent>({ prefix: EVENT_PREFIX, reverse: true, limit: 1 })).values();
+    return latest?.id || 0;
+  }
+
+  async getOldestEvent(): Promise<ChangeEvent | undefined> {
+    const [oldest] = (await this.storage.list<ChangeEvent>({ prefix: EVENT_PREFIX, limit: 1 })).values();
+    return oldest;
+  }
+
+  // Drop the events older than the latest `keep`
+  async pruneEvents(latestId: number, keep: number): Promise<void> {
+    const expired = await this.storage.list({ prefix: EVENT_PREFIX, end: `${EVENT_PREFIX}${pad(latestId - keep + 1)}` });
+    for (const batch of chunk([...expired.keys()])) {
+      await this.storage.delete(batch);
+    }
+  }
+
+  // Audit log
+
+  // Entries are appended by appendAuditEntry, which the registry's log goes through too
+  async getAuditEntries(): Promise<AuditEntry[]> {
+    return listAuditEntries(this.storage);
+  }
+
+  // Search index
+
+  async getPostings(terms: string[]): Promise<Map<string, number[]>> {
+    const postings = new Map<string, number[]>();
+    for (const batch of chunk(terms)) {
+      const found = await this.storage.get<number[]>(batch.map(term => `${TERM_PREFIX}${term}`));
+      found.forEach((ids, key) => postings.set(key.slice(TERM_PREFIX.length), ids));
+    }
+    return postings;
+  }
+
+  async addToIndex(versionId: number, terms: string[]): Promise<void> {
+    const postings = await this.getPostings(terms);
+    const entries = terms.map((term): [string, number[]] => {
+      const ids = postings.get(term) || [];
+      return [`${TERM_PREFIX}${term}`, ids.includes(versionId) ? ids : [...ids, versionId]];
+    });
+    for (const batch of chunk(entries)) {
+      await this.storage.put(Object.fromEntries(batch));
+    }
+  }
+
+  async removeFromIndex(versionId: number, terms: string[]): Promise<void> {
+    const postings = await this.getPostings(terms);
+    const emptied: string[] = [];
+    const entries: Array<[string, number[]]> = [];
+    postings.forEach((ids, term) => {
+      const remaining = ids.filter(id => id !== versionId);
+      if (remaining.length === 0) {
+        emptied.push(`${TERM_PREFIX}${term}`);
+      } else {
+        entries.push([`${TERM_PREFIX}${term}`, remaining]);
+      }
+    });
+    for (const batch of chunk(entries)) {
+      await this.storage.put(Object.fromEntries(batch));
+    }
+    for (const batch of chunk(emptied)) {
+      await this.storage.delete(batch);
+    }
+  }
+
+  // Replace the whole index, used to index documents created before search existed
+  async rebuildIndex(termsByVersion: Map<number, string[]>): Promise<void> {
+    const existing = await this.storage.list({ prefix: TERM_PREFIX });
+    for (const batch of chunk([...existing.keys()])) {
+      await this.storage.delete(batch);
+    }
+
+    const postings = new Map<string, number[]>();
+    termsByVersion.forEach((terms, versionId) => {
+      for (const term of terms) {
+        postings.set(term, [...(postings.get(term) || []), versionId]);
+      }
+    });
+    const entries = [...postings].map(([term, ids]): [string, number[]] => [`${TERM_PREFIX}${term}`, ids]);
+    for (const batch of chunk(entries)) {
+      await this.storage.put(Object.fromEntries(batch));
+    }
+  }
+}
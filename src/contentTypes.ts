@@ -0,0 +1,246 @@
+import { YAMLException, load } from 'js-yaml';
+import { BadRequestError } from './errors';
+import { ContentType, ContentTypeSettings, JsonChange, JsonSchema, JsonSchemaType, ValidationIssue } from './types';
+
+export const CONTENT_TYPES: ContentType[] = ['text', 'json', 'markdown'];
+
+const SCHEMA_TYPES: JsonSchemaType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+// Front matter is a YAML block fenced by --- lines at the very start of a Markdown document
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+// JSON Pointer (RFC 6901) of a child of `path`
+function childPath(path: string, key: string | number): string {
+  return `${path}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Whether an object has a key of its own. `in` also finds inherited keys like toString and constructor.
+export function hasOwn(value: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonSchemaType;
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => hasOwn(b, key) && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+// Validate a value against the subset of JSON Schema we support: type, enum, const, properties,
+// required, additionalProperties, items, min/max (Length, Items) and pattern
+export function validateSchema(value: unknown, schema: JsonSchema, path: string = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    // Integers are numbers too
+    if (!allowed.includes(actual) && !(actual === 'integer' && allowed.includes('number'))) {
+      issues.push({ path, message: `must be ${allowed.join(' or ')}, got ${actual}` });
+      return issues;
+    }
+  }
+  if (schema.enum && !schema.enum.some(option => deepEqual(option, value))) {
+    issues.push({ path, message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+  }
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    issues.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `must be at least ${schema.minLength} characters long` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `must be at most ${schema.maxLength} characters long` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      issues.push({ path, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, i) => issues.push(...validateSchema(item, schema.items as JsonSchema, childPath(path, i))));
+    }
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required || []) {
+      if (!hasOwn(value, key)) {
+        issues.push({ path: childPath(path, key), message: "is required" });
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const propertySchema = schema.properties && hasOwn(schema.properties, key) ? schema.properties[key] : undefined;
+      if (propertySchema) {
+        issues.push(...validateSchema(item, propertySchema, childPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: childPath(path, key), message: "is not allowed" });
+      } else if (isObject(schema.additionalProperties)) {
+        issues.push(...validateSchema(item, schema.additionalProperties, childPath(path, key)));
+      }
+    }
+  }
+
+  return issues;
+}
+
+// Reject schemas using keywords with the wrong shape, so mistakes surface when the schema is set
+// rather than as confusing validation results later
+export function assertValidSchema(schema: unknown, path: string = ''): asserts schema is JsonSchema {
+  if (!isObject(schema)) {
+    throw new BadRequestError(`schema${path} must be an object`);
+  }
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.some(type => !SCHEMA_TYPES.includes(type as JsonSchemaType))) {
+    throw new BadRequestError(`schema${path}/type must be one of ${SCHEMA_TYPES.join(', ')}`);
+  }
+  if (schema.required !== undefined && !(Array.isArray(schema.required) && schema.required.every(key => typeof key === 'string'))) {
+    throw new BadRequestError(`schema${path}/required must be an array of strings`);
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    throw new BadRequestError(`schema${path}/enum must be an array`);
+  }
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern as string, 'u');
+    } catch {
+      throw new BadRequestError(`schema${path}/pattern is not a valid regular expression`);
+    }
+  }
+  if (schema.properties !== undefined) {
+    if (!isObject(schema.properties)) {
+      throw new BadRequestError(`schema${path}/properties must be an object`);
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      assertValidSchema(propertySchema, childPath(`${path}/properties`, key));
+    }
+  }
+  if (schema.items !== undefined) {
+    assertValidSchema(schema.items, `${path}/items`);
+  }
+  if (isObject(schema.additionalProperties)) {
+    assertValidSchema(schema.additionalProperties, `${path}/additionalProperties`);
+  }
+}
+
+// Split a Markdown document into its front matter and body. Documents without front matter have
+// empty front matter.
+export function parseFrontMatter(content: string): { data: Record<string, unknown>; body: string } {
+  const match = content.match(FRONT_MATTER);
+  if (!match) {
+    return { data: {}, body: content };
+  }
+  const data = load(match[1]) ?? {};
+  if (!isObject(data)) {
+    throw new Error("Front matter must be a mapping of keys to values");
+  }
+  return { data, body: content.slice(match[0].length) };
+}
+
+// Check content against the content type of its document.
+// For JSON the whole document is checked against the schema, for Markdown the front matter is.
+export function validateContent(content: string, settings: ContentTypeSettings): ValidationIssue[] {
+  switch (settings.contentType) {
+    case 'json': {
+      let value: unknown;
+      try {
+        value = JSON.parse(content);
+      } catch (err) {
+        return [{ path: '', message: `is not valid JSON: ${(err as Error).message}` }];
+      }
+      return settings.schema ? validateSchema(value, settings.schema) : [];
+    }
+    case 'markdown': {
+      let data: Record<string, unknown>;
+      try {
+        ({ data } = parseFrontMatter(content));
+      } catch (err) {
+        // YAML errors carry a short reason next to a message with an excerpt of the source
+        const reason = err instanceof YAMLException ? err.reason : (err as Error).message;
+        return [{ path: '', message: `has invalid front matter: ${reason}` }];
+      }
+      return settings.schema ? validateSchema(data, settings.schema) : [];
+    }
+    default:
+      return [];
+  }
+}
+
+// Semantic diff of two JSON values: the paths that were added, removed or changed.
+// Objects are compared key by key and arrays index by index; any other change replaces the value.
+export function diffJson(from: unknown, to: unknown, path: string = ''): JsonChange[] {
+  if (deepEqual(from, to)) {
+    return [];
+  }
+
+  if (isObject(from) && isObject(to)) {
+    const changes: JsonChange[] = [];
+    for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+      if (!hasOwn(to, key)) {
+        changes.push({ type: 'removed', path: childPath(path, key), from: from[key] });
+      } else if (!hasOwn(from, key)) {
+        changes.push({ type: 'added', path: childPath(path, key), to: to[key] });
+      } else {
+        changes.push(...diffJson(from[key], to[key], childPath(path, key)));
+      }
+    }
+    return changes;
+  }
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const changes: JsonChange[] = [];
+    for (let i = 0; i < Math.max(from.length, to.length); i++) {
+      if (i >= to.length) {
+        changes.push({ type: 'removed', path: childPath(path, i), from: from[i] });
+      } else if (i >= from.length) {
+        changes.push({ type: 'added', path: childPath(path, i), to: to[i] });
+      } else {
+        changes.push(...diffJson(from[i], to[i], childPath(path, i)));
+      }
+    }
+    return changes;
+  }
+
+  return [{ type: 'changed', path, from, to }];
+}
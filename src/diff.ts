@@ -0,0 +1,278 @@
+import { Change, Hunk, applyPatch, createPatch, diffArrays, diffChars, diffLines, diffSentences, diffWordsWithSpace, parsePatch, structuredPatch } from 'diff';
+import { BlameResult, ContentDiff, DiffHunk, DiffMode, InlineChange, MergeConflict, StoredDiff } from './types';
+
+export const DIFF_MODES: DiffMode[] = ['lines', 'words', 'chars', 'sentences'];
+
+// Count added, removed and changed lines across the hunks of a structured patch.
+// A run of removed lines directly followed by a run of added lines is a change:
+// the smaller of the two runs is the number of lines that were modified in place.
+function countChanges(hunks: DiffHunk[]): { additions: number; deletions: number; modifications: number } {
+  let additions = 0;
+  let deletions = 0;
+  let modifications = 0;
+
+  for (const hunk of hunks) {
+    let removedRun = 0;
+    let addedRun = 0;
+    const closeRun = (): void => {
+      modifications += Math.min(removedRun, addedRun);
+      removedRun = 0;
+      addedRun = 0;
+    };
+
+    for (const line of hunk.lines) {
+      if (line.startsWith('-')) {
+        if (addedRun > 0) {
+          closeRun();
+        }
+        removedRun++;
+        deletions++;
+      } else if (line.startsWith('+')) {
+        addedRun++;
+        additions++;
+      } else if (line.startsWith('\\')) {
+        // "\ No newline at end of file" belongs to the previous line
+        continue;
+      } else {
+        closeRun();
+      }
+    }
+    closeRun();
+  }
+
+  return { additions, deletions, modifications };
+}
+
+function toDiffHunk(hunk: Hunk): DiffHunk {
+  return {
+    oldStart: hunk.oldStart,
+    oldLines: hunk.oldLines,
+    newStart: hunk.newStart,
+    newLines: hunk.newLines,
+    lines: hunk.lines
+  };
+}
+
+// Compute a line-level diff between two contents: unified patch, structured hunks and line counts
+export function calculateDetailedDiff(oldContent: string, newContent: string): ContentDiff {
+  const patch = createPatch('content', 
+    oldContent,
+    newContent,
+    'old version',
+    'new version'
+  );
+
+  const hunks = structuredPatch('content', 'content', oldContent, newContent).hunks.map(toDiffHunk);
+
+  const { additions, deletions, modifications } = countChanges(hunks);
+
+  return {
+    from: oldContent,
+    to: newContent,
+    changes: {
+      additions,
+      deletions,
+      modifications,
+      totalChanges: additions + deletions,
+      timestamp: new Date().toISOString()
+    },
+    patch: patch,
+    hunks
+  };
+}
+
+// Rebuild the full diff of a stored patch once both contents are known
+export function expandDiff(from: string, to: string, stored: StoredDiff): ContentDiff {
+  const [parsed] = parsePatch(stored.patch);
+  return {
+    from,
+    to,
+    changes: stored.changes,
+    patch: stored.patch,
+    hunks: (parsed?.hunks || []).map(toDiffHunk)
+  };
+}
+
+// Apply a unified patch, failing when it does not fit the content it is applied to
+export function applyContentPatch(content: string, patch: string): string {
+  const result = applyPatch(content, patch);
+  if (result === false) {
+    throw new Error("Stored patch does not apply to its base version");
+  }
+  return result;
+}
+
+// Split the difference between two contents into equal / insert / delete spans at the given granularity
+export function calculateInlineDiff(oldContent: string, newContent: string, mode: DiffMode): InlineChange[] {
+  let changes: Change[];
+  switch (mode) {
+    case 'words':
+      changes = diffWordsWithSpace(oldContent, newContent);
+      break;
+    case 'chars':
+      changes = diffChars(oldContent, newContent);
+      break;
+    case 'sentences':
+      changes = diffSentences(oldContent, newContent);
+      break;
+    default:
+      changes = diffLines(oldContent, newContent);
+  }
+
+  return changes.map(change => ({
+    type: change.added ? 'insert' : change.removed ? 'delete' : 'equal',
+    value: change.value
+  }));
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Render inline changes as escaped HTML with <ins>/<del> markup
+export function renderInlineDiffHtml(changes: InlineChange[]): string {
+  return changes.map(change => {
+    const value = escapeHtml(change.value);
+    if (change.type === 'insert') {
+      return `<ins>${value}</ins>`;
+    }
+    if (change.type === 'delete') {
+      return `<del>${value}</del>`;
+    }
+    return value;
+  }).join('');
+}
+
+// Map every line of `base` that survives unchanged in `other` to its index in `other`
+function matchLines(base: string[], other: string[]): Map<number, number> {
+  const matches = new Map<number, number>();
+  let baseIndex = 0;
+  let otherIndex = 0;
+
+  for (const change of diffArrays(base, other)) {
+    const count = change.value.length;
+    if (change.added) {
+      otherIndex += count;
+    } else if (change.removed) {
+      baseIndex += count;
+    } else {
+      for (let i = 0; i < count; i++) {
+        matches.set(baseIndex + i, otherIndex + i);
+      }
+      baseIndex += count;
+      otherIndex += count;
+    }
+  }
+  return matches;
+}
+
+// Lines of a content, without the empty line after a trailing newline
+export function splitLines(content: string): string[] {
+  if (content === '') {
+    return [];
+  }
+  return content.replace(/\n$/, '').split('\n');
+}
+
+// For every line of `child` carried over unchanged from `parent`, its index in `parent`
+export function traceLines(parent: string[], child: string[]): Map<number, number> {
+  const traced = new Map<number, number>();
+  matchLines(parent, child).forEach((childIndex, parentIndex) => traced.set(childIndex, parentIndex));
+  return traced;
+}
+
+// Blame as an HTML table, the version of a run of lines is only shown on its first line
+export function renderBlameHtml(blame: BlameResult): string {
+  const rows = blame.lines.map((line, i) => {
+    const previous = blame.lines[i - 1];
+    const annotation = previous && previous.versionId === line.versionId
+      ? '<td></td><td></td><td></td>'
+      : `<td class="blame-version" title="${escapeHtml(line.message)}">v${line.versionId}</td>` +
+        `<td class="blame-author">${escapeHtml(line.author || '')}</td>` +
+        `<td class="blame-date">${escapeHtml(line.timestamp.slice(0, 10))}</td>`;
+    return `<tr>${annotation}<td class="blame-line">${line.line}</td><td class="blame-content"><pre>${escapeHtml(line.content)}</pre></td></tr>`;
+  });
+  return `<table class="blame">\n${rows.join('\n')}\n</table>`;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+export interface ThreeWayMergeResult {
+  content: string;
+  conflicts: MergeConflict[];
+}
+
+// Line-based three-way merge (diff3). Regions changed on only one side take that side,
+// regions changed identically on both sides are taken once, and overlapping edits
+// become conflicts written with git-style <<<<<<< / ======= / >>>>>>> markers.
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: { ours: string; theirs: string }
+): ThreeWayMergeResult {
+  const baseLines = base.split('\n');
+  const ourLines = ours.split('\n');
+  const theirLines = theirs.split('\n');
+  const ourMatches = matchLines(baseLines, ourLines);
+  const theirMatches = matchLines(baseLines, theirLines);
+
+  const output: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let i = 0;
+  let a = 0;
+  let b = 0;
+
+  while (i < baseLines.length || a < ourLines.length || b < theirLines.length) {
+    // Line unchanged on both sides
+    if (i < baseLines.length && ourMatches.get(i) === a && theirMatches.get(i) === b) {
+      output.push(baseLines[i]);
+      i++;
+      a++;
+      b++;
+      continue;
+    }
+
+    // Find the next base line that both sides kept, everything before it is a changed region
+    let k = i;
+    while (k < baseLines.length && !(ourMatches.has(k) && theirMatches.has(k))) {
+      k++;
+    }
+    const ourEnd = k < baseLines.length ? ourMatches.get(k) as number : ourLines.length;
+    const theirEnd = k < baseLines.length ? theirMatches.get(k) as number : theirLines.length;
+
+    const baseChunk = baseLines.slice(i, k);
+    const ourChunk = ourLines.slice(a, ourEnd);
+    const theirChunk = theirLines.slice(b, theirEnd);
+
+    if (sameLines(ourChunk, baseChunk)) {
+      output.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      output.push(...ourChunk);
+    } else {
+      conflicts.push({
+        line: output.length + 1,
+        base: baseChunk,
+        ours: ourChunk,
+        theirs: theirChunk
+      });
+      output.push(`<<<<<<< ${labels.ours}`, ...ourChunk, '=======', ...theirChunk, `>>>>>>> ${labels.theirs}`);
+    }
+
+    i = k;
+    a = ourEnd;
+    b = theirEnd;
+  }
+
+  return {
+    content: output.join('\n'),
+    conflicts
+  };
+}
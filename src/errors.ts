@@ -0,0 +1,91 @@
+import { ApiResponse, ValidationIssue } from './types';
+
+// Errors that map to a specific HTTP status when they reach ContentDO.fetch
+export class HttpError extends Error {
+  status: number;
+  details?: Record<string, unknown>;
+
+  constructor(status: number, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+// A malformed request: a path segment or query parameter that is not valid, a body that is not JSON
+export class BadRequestError extends HttpError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(400, message, details);
+    this.name = 'BadRequestError';
+  }
+}
+
+// A request body that does not have the fields its route expects, with the problem of each field
+export class RequestValidationError extends BadRequestError {
+  constructor(message: string, errors: ValidationIssue[]) {
+    super(message, { errors });
+    this.name = 'RequestValidationError';
+  }
+}
+
+// The version, tag, branch, channel... a request names does not exist
+export class NotFoundError extends HttpError {
+  constructor(message: string) {
+    super(404, message);
+    this.name = 'NotFoundError';
+  }
+}
+
+// The request does not fit the current state: the client wrote against a base version that is no
+// longer the head, a name is already taken, or the target is in the wrong state for the operation
+export class ConflictError extends HttpError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(409, message, details);
+    this.name = 'ConflictError';
+  }
+}
+
+// The content does not validate against its document's content type
+export class ContentValidationError extends HttpError {
+  constructor(message: string, errors: ValidationIssue[]) {
+    super(422, message, { errors });
+    this.name = 'ContentValidationError';
+  }
+}
+
+// A well-formed patch that cannot be applied to the version it was sent against
+export class PatchRejectedError extends HttpError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(422, message, details);
+    this.name = 'PatchRejectedError';
+  }
+}
+
+// No valid credentials were presented
+export class UnauthorizedError extends HttpError {
+  constructor(message: string) {
+    super(401, message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// The caller is known but their role does not allow the operation
+export class ForbiddenError extends HttpError {
+  constructor(message: string) {
+    super(403, message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+// Error response in the ApiResponse envelope. Details (field errors, conflicting versions...) sit next
+// to the message. Errors that are not HttpErrors are unexpected and become a 500.
+export function errorResponse(err: unknown): Response {
+  if (err instanceof HttpError) {
+    const body: ApiResponse<never> = { success: false, error: err.message, ...err.details };
+    return Response.json(body, { status: err.status });
+  }
+  console.error('Error:', err);
+  const body: ApiResponse<never> = { success: false, error: err instanceof Error ? err.message : 'Unknown error occurred' };
+  return Response.json(body, { status: 500 });
+}
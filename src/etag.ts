@@ -0,0 +1,32 @@
+// ETags for a document look like "<head>-<revision>", head being the head of main: the revision changes
+// on every write so conditional GETs stay correct, and the leading version is what If-Match is checked against.
+export function formatETag(head: number, revision: number): string {
+  return `"${head}-${revision}"`;
+}
+
+// Split an If-Match / If-None-Match header into its entity tags, dropping weak prefixes
+export function parseETagList(header: string | null): string[] {
+  if (!header) {
+    return [];
+  }
+  return header
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .filter(Boolean);
+}
+
+// Expected base version carried by an If-Match header: `"3"`, `"3-17"` or a bare `3`.
+// Returns undefined when there is no precondition (missing header or `*`).
+export function parseIfMatchVersion(header: string | null): number | undefined {
+  const [tag] = parseETagList(header);
+  if (!tag || tag === '*') {
+    return undefined;
+  }
+  const version = parseInt(tag.replace(/"/g, ''), 10);
+  return Number.isNaN(version) ? undefined : version;
+}
+
+export function matchesIfNoneMatch(header: string | null, etag: string): boolean {
+  const tags = parseETagList(header);
+  return tags.includes('*') || tags.includes(etag);
+}
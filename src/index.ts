@@ -1,11 +1,27 @@
 import { ContentDO } from './contentDO';
+import { RegistryDO, isValidDocumentId } from './registryDO';
+import { signToken, verifyPreview } from './auth';
+import { BadRequestError, HttpError, NotFoundError, errorResponse } from './errors';
+import { DEFAULT_CHANNEL } from './contentStore';
+import { getSiteConfig, renderPage } from './templates';
+import { cacheTtl, publicCacheKey, purgePublished, serveCached } from './cache';
 import { DurableObjectNamespace, DurableObjectStub } from '@cloudflare/workers-types';
-import { Version } from './types';
+import { Channel, ContentTypeSettings, DocumentRecord, PageSettings, PageView, PublishedVersion, Version } from './types';
 
 type Env = {
   CONTENT: DurableObjectNamespace;
+  REGISTRY: DurableObjectNamespace;
+  AUTH_SECRET: string;
+  // Public pages: heading and <title>, target of the management link, extra stylesheet
+  SITE_TITLE?: string;
+  BASE_URL?: string;
+  STYLESHEET_URL?: string;
+  // Seconds public pages stay in the edge cache, 0 turns the cache off
+  CACHE_TTL?: string;
 };
 
+const DEFAULT_DOCUMENT_ID = 'default';
+
 // Error handling types and helpers
 interface ErrorWithMessage {
   message: string;
@@ -27,90 +43,209 @@ function getErrorMessage(error: unknown): string {
   return 'Unknown error occurred';
 }
 
-// HTML Template & Styling
-const getHtmlTemplate = (content: string, message: string = '', timestamp: string = '') => `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Content Version System</title>
-    <style>
-        body {
-            font-family: system-ui, sans-serif;
-            max-width: 800px;
-            margin: 0 auto;
-            padding: 20px;
-        }
-        .content {
-            background: #f5f5f5;
-            padding: 20px;
-            border-radius: 8px;
-            margin: 20px 0;
-            white-space: pre-wrap;
-        }
-        .button {
-            background: #0070f3;
-            color: white;
-            padding: 12px 24px;
-            border-radius: 5px;
-            text-decoration: none;
-            display: inline-block;
-            margin-top: 20px;
-        }
-        .button:hover {
-            background: #0051a2;
-        }
-        pre {
-            white-space: pre-wrap;
-            word-wrap: break-word;
-        }
-        .meta {
-            color: #666;
-            font-size: 0.9em;
-            margin-bottom: 10px;
-        }
-    </style>
-</head>
-<body>
-    <h1>Content Version System</h1>
-    <div class="content">
-        <div class="meta">
-            <strong>Message:</strong> ${message}<br>
-            <strong>Last Updated:</strong> ${new Date(timestamp).toLocaleString()}
-        </div>
-        <h2>Current Content:</h2>
-        <pre>${content}</pre>
-    </div>
-  <a href="https://content-version-system.sycu-lee.workers.dev" class="button">Content Version Management</a> # Replace to your worker url
-</body>
-</html>
-`;
-
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, HEAD, POST, PUT, OPTIONS, DELETE',
-  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, HEAD, POST, PUT, PATCH, OPTIONS, DELETE',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, If-Match, If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag, Last-Modified',
 };
 
-async function getLatestPublishedVersion(contentDO: DurableObjectStub, origin: string): Promise<Version | null> {
-  const versionsResponse = await contentDO.fetch(`${origin}/content/default/versions`);
-  const versions: Version[] = await versionsResponse.json(); // Explicitly type the response
+// Short-lived viewer token the worker uses for its own reads of published content
+async function getServiceHeaders(env: Env): Promise<Record<string, string>> {
+  const token = await signToken({ sub: 'worker', role: 'viewer' }, env.AUTH_SECRET, 60);
+  return { Authorization: `Bearer ${token}` };
+}
+
+// Headers of a call the worker makes for a client: its token, and what the audit log records about the request
+function forwardedHeaders(request: Request): Record<string, string> {
+  const names = ['Authorization', 'CF-Connecting-IP', 'User-Agent', 'CF-Ray'];
+  return Object.fromEntries(names.flatMap(name => {
+    const value = request.headers.get(name);
+    return value ? [[name, value]] : [];
+  }));
+}
 
-  const publishedVersions = versions.filter(v => v.status === 'published');
-  if (publishedVersions.length === 0) {
+// Version live on a publish channel, in a single Durable Object call.
+// Null when the channel does not exist or serves nothing.
+async function getLatestPublishedVersion(
+  contentDO: DurableObjectStub,
+  origin: string,
+  documentId: string,
+  headers: Record<string, string>,
+  channel: string = DEFAULT_CHANNEL
+): Promise<PublishedVersion | null> {
+  const response = await contentDO.fetch(
+    `${origin}/content/${documentId}/published?channel=${encodeURIComponent(channel)}`,
+    { headers }
+  );
+  if (response.status === 404) {
     return null;
   }
+  if (!response.ok) {
+    throw new Error(`Published content unavailable: ${await response.text()}`);
+  }
+  return await response.json() as PublishedVersion;
+}
 
-  return publishedVersions.reduce((latest, current) => 
-    latest.id > current.id ? latest : current
-  );
+// When the served version went live, for Last-Modified
+function publishedHeaders(published: PublishedVersion): Record<string, string> {
+  return { 'Last-Modified': new Date(published.publishedAt || published.version.timestamp).toUTCString() };
+}
+
+// Map the pre multi-document routes onto the "default" document
+function rewriteLegacyPath(method: string, pathname: string): string {
+  if (method === 'POST' && pathname === '/content') {
+    return `/content/${DEFAULT_DOCUMENT_ID}/versions`;
+  }
+  if (pathname.startsWith('/content/versions/tags')) {
+    return pathname.replace('/content/versions/tags', `/content/${DEFAULT_DOCUMENT_ID}/tags`);
+  }
+  if (pathname.startsWith('/content/versions/')) {
+    return pathname.replace('/content/versions/', `/content/${DEFAULT_DOCUMENT_ID}/versions/`);
+  }
+  return pathname;
+}
+
+function jsonResponse(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...corsHeaders,
+      ...headers
+    }
+  });
+}
+
+// Writes to /content/{documentId}/... after which its public routes must not be served from the cache
+function changesPublishedContent(method: string, parts: string[]): boolean {
+  const [, , section, , action] = parts;
+  return (method === 'POST' && section === 'versions' && (action === 'publish' || action === 'unpublish'))
+    || (method === 'POST' && section === 'channels' && action === 'promote')
+    || (method === 'DELETE' && section === 'channels')
+    || (method === 'PUT' && section === 'content-type')
+    || (method === 'POST' && section === 'import')
+    || (method === 'DELETE' && parts.length === 2);
+}
+
+// Channels of a document, whose cached public routes a write may have to purge
+async function getChannelNames(contentDO: DurableObjectStub, origin: string, documentId: string, env: Env): Promise<string[]> {
+  const response = await contentDO.fetch(`${origin}/content/${documentId}/channels`, {
+    headers: await getServiceHeaders(env)
+  });
+  return response.ok ? (await response.json() as Channel[]).map(channel => channel.name) : [];
 }
 
-export { ContentDO };
+// Name and template a document is shown with, from the registry
+async function getPageSettings(
+  env: Env,
+  origin: string,
+  documentId: string,
+  headers: Record<string, string>
+): Promise<Pick<PageView, 'name' | 'template'>> {
+  const registry = env.REGISTRY.get(env.REGISTRY.idFromName('registry'));
+  const response = await registry.fetch(`${origin}/documents/${documentId}`, { headers });
+  const document = response.ok ? await response.json() as DocumentRecord | null : null;
+  return { name: document?.name, template: document?.template };
+}
+
+// Copy a registry record's name and template to the document, which renders its pages without the registry
+async function putPageSettings(env: Env, origin: string, document: DocumentRecord, headers: Record<string, string>): Promise<void> {
+  const contentDO = env.CONTENT.get(env.CONTENT.idFromName(document.id));
+  const settings: PageSettings = { name: document.name, template: document.template };
+  await contentDO.fetch(`${origin}/content/${document.id}/page`, {
+    method: 'PUT',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify(settings)
+  });
+}
+
+function htmlResponse(view: PageView, env: Env, origin: string, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'text/html; charset=utf-8');
+  return new Response(renderPage(view, getSiteConfig(env, origin)), { ...init, headers });
+}
+
+async function renderDocument(contentDO: DurableObjectStub, origin: string, documentId: string, env: Env, channel?: string): Promise<Response> {
+  try {
+    const headers = await getServiceHeaders(env);
+    const published = await getLatestPublishedVersion(contentDO, origin, documentId, headers, channel);
+    // Documents registered before they kept a copy of their name and template have none until it next changes
+    const settings = published?.page ?? await getPageSettings(env, origin, documentId, headers);
+    
+    if (published) {
+      const { version } = published;
+      return htmlResponse({
+        ...settings,
+        content: version.content || 'No content available',
+        contentType: published.contentType,
+        message: version.message,
+        timestamp: version.timestamp
+      }, env, origin, { headers: publishedHeaders(published) });
+    } else {
+      return htmlResponse({ ...settings, content: 'No published content available', message: 'No published versions' }, env, origin);
+    }
+  } catch (error) {
+    console.error('Root error:', error);
+    // Not a 200, so the error page is never cached
+    return htmlResponse({ content: 'Error loading content', message: 'Error occurred' }, env, origin, { status: 500 });
+  }
+}
+
+// Previews are shared drafts: keep them out of search engines, caches and the Referer of outgoing links
+const previewHeaders = {
+  'Content-Type': 'text/html; charset=utf-8',
+  'X-Robots-Tag': 'noindex, nofollow',
+  'Cache-Control': 'private, no-store',
+  'Referrer-Policy': 'no-referrer'
+};
+
+// Render one version from a signed preview link: /preview/{documentId}/{versionId}?expires=&signature=
+async function renderPreview(url: URL, parts: string[], env: Env): Promise<Response> {
+  const [, documentId, id] = parts;
+  const versionId = Number(id);
+  const expires = Number(url.searchParams.get('expires'));
+  try {
+    if (!isValidDocumentId(documentId) || !Number.isInteger(versionId) || !Number.isInteger(expires)) {
+      throw new NotFoundError("Preview not found");
+    }
+    await verifyPreview(documentId, versionId, expires, url.searchParams.get('signature') || '', env.AUTH_SECRET);
+
+    const contentDO = env.CONTENT.get(env.CONTENT.idFromName(documentId));
+    const headers = await getServiceHeaders(env);
+    const [contentResponse, contentTypeResponse, settings] = await Promise.all([
+      contentDO.fetch(`${url.origin}/content/${documentId}/versions/${versionId}`, { headers }),
+      contentDO.fetch(`${url.origin}/content/${documentId}/content-type`, { headers }),
+      getPageSettings(env, url.origin, documentId, headers)
+    ]);
+    const version = contentResponse.ok ? await contentResponse.json() as Version | null : null;
+    if (!version) {
+      throw new NotFoundError("The previewed version no longer exists");
+    }
+    const { contentType } = contentTypeResponse.ok ? await contentTypeResponse.json() as ContentTypeSettings : { contentType: undefined };
+
+    const preview = { versionId, expiresAt: new Date(expires * 1000).toISOString() };
+    return htmlResponse({
+      ...settings,
+      content: version.content || 'No content available',
+      contentType,
+      message: version.message,
+      timestamp: version.timestamp,
+      preview
+    }, env, url.origin, { headers: previewHeaders });
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    return htmlResponse({ content: getErrorMessage(error), message: 'Preview unavailable' }, env, url.origin, {
+      status,
+      headers: previewHeaders
+    });
+  }
+}
+
+export { ContentDO, RegistryDO };
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     try {
       const url = new URL(request.url);
 
@@ -119,91 +254,149 @@ export default {
         return new Response(null, { headers: corsHeaders });
       }
 
-      // Get Durable Objects instance
-      const doId = env.CONTENT.idFromName('default');
-      const contentDO = env.CONTENT.get(doId);
+      const registry = env.REGISTRY.get(env.REGISTRY.idFromName('registry'));
+
+      const ttl = cacheTtl(env.CACHE_TTL);
 
-      // Handle root path - show HTML view
+      // Handle root path - show HTML view of the default document
       if (url.pathname === '/') {
-        try {
-          const latestPublished = await getLatestPublishedVersion(contentDO, url.origin);
-          
-          if (latestPublished) {
-            const contentResponse = await contentDO.fetch(
-              `${url.origin}/content/default/versions/${latestPublished.id}`
-            );
-            const contentData: Version = await contentResponse.json(); // Explicitly type the response
-            
-            return new Response(
-              getHtmlTemplate(
-                contentData.content || 'No content available',
-                contentData.message,
-                contentData.timestamp
-              ), {
-                headers: { 'Content-Type': 'text/html' }
-              }
-            );
-          } else {
-            return new Response(
-              getHtmlTemplate('No published content available', 'No published versions', ''), {
-                headers: { 'Content-Type': 'text/html' }
-              }
-            );
-          }
-        } catch (error) {
-          console.error('Root error:', error);
-          return new Response(
-            getHtmlTemplate('Error loading content', 'Error occurred', ''), {
-              headers: { 'Content-Type': 'text/html' }
-            }
-          );
+        const contentDO = env.CONTENT.get(env.CONTENT.idFromName(DEFAULT_DOCUMENT_ID));
+        const channel = url.searchParams.get('channel') || DEFAULT_CHANNEL;
+        return await serveCached(request, publicCacheKey(url.origin, 'view', DEFAULT_DOCUMENT_ID, channel), ttl, ctx,
+          () => renderDocument(contentDO, url.origin, DEFAULT_DOCUMENT_ID, env, channel));
+      }
+
+      const pathname = rewriteLegacyPath(request.method, url.pathname);
+      const parts = pathname.split('/').filter(Boolean);
+
+      // HTML view of any other document: /view/{documentId}
+      if (parts[0] === 'view' && parts.length === 2) {
+        if (!isValidDocumentId(parts[1])) {
+          throw new BadRequestError("Invalid document id");
         }
+        const contentDO = env.CONTENT.get(env.CONTENT.idFromName(parts[1]));
+        const channel = url.searchParams.get('channel') || DEFAULT_CHANNEL;
+        return await serveCached(request, publicCacheKey(url.origin, 'view', parts[1], channel), ttl, ctx,
+          () => renderDocument(contentDO, url.origin, parts[1], env, channel));
       }
 
-      // Special handling for /content/default
-      if (url.pathname === '/content/default') {
-        try {
-          const latestPublished = await getLatestPublishedVersion(contentDO, url.origin);
-          
-          if (latestPublished) {
-            const contentResponse = await contentDO.fetch(
-              `${url.origin}/content/default/versions/${latestPublished.id}`
-            );
-            const contentData: Version = await contentResponse.json(); // Explicitly type the response
-
-            return new Response(JSON.stringify(contentData), {
-              headers: {
-                'Content-Type': 'application/json',
-                ...corsHeaders
-              }
-            });
-          } else {
-            return new Response(JSON.stringify({ error: 'No published content available' }), {
-              status: 404,
-              headers: {
-                'Content-Type': 'application/json',
-                ...corsHeaders
-              }
-            });
-          }
-        } catch (error) {
-          console.error('Content default error:', error);
-          return new Response(JSON.stringify({ error: getErrorMessage(error) }), {
-            status: 500,
-            headers: {
-              'Content-Type': 'application/json',
-              ...corsHeaders
-            }
+      // Signed preview links of unpublished versions: /preview/{documentId}/{versionId}
+      if (parts[0] === 'preview' && parts.length === 3 && request.method === 'GET') {
+        return await renderPreview(url, parts, env);
+      }
+
+      // Document registry: /documents and /documents/{documentId}, token minting (POST /auth/tokens)
+      // and the audit log of both (/audit)
+      if (parts[0] === 'documents' || parts[0] === 'audit' || pathname === '/auth/tokens') {
+        const response = await registry.fetch(`${url.origin}${pathname}${url.search}`, {
+          method: request.method,
+          headers: request.headers,
+          body: request.body
+        });
+
+        // Deleting a document from the registry also drops its version history
+        if (request.method === 'DELETE' && parts.length === 2 && response.ok) {
+          const contentDO = env.CONTENT.get(env.CONTENT.idFromName(parts[1]));
+          const channels = await getChannelNames(contentDO, url.origin, parts[1], env);
+          await contentDO.fetch(`${url.origin}/content/${parts[1]}`, {
+            method: 'DELETE',
+            headers: forwardedHeaders(request)
           });
+          await purgePublished(url.origin, parts[1], channels);
+        }
+
+        // The document keeps a copy of a new record's name and template
+        if (request.method === 'POST' && pathname === '/documents' && response.ok) {
+          await putPageSettings(env, url.origin, await response.clone().json() as DocumentRecord, forwardedHeaders(request));
         }
+
+        // A new name or template changes the rendered pages
+        if (request.method === 'PATCH' && parts.length === 2 && response.ok) {
+          const contentDO = env.CONTENT.get(env.CONTENT.idFromName(parts[1]));
+          await putPageSettings(env, url.origin, await response.clone().json() as DocumentRecord, forwardedHeaders(request));
+          await purgePublished(url.origin, parts[1], await getChannelNames(contentDO, url.origin, parts[1], env));
+        }
+
+        const newResponse = new Response(response.body, response);
+        Object.entries(corsHeaders).forEach(([key, value]) => {
+          newResponse.headers.set(key, value);
+        });
+        return newResponse;
+      }
+
+      if (parts[0] !== 'content' || parts.length < 2) {
+        throw new NotFoundError("Not found");
       }
 
+      const documentId = parts[1];
+      if (!isValidDocumentId(documentId)) {
+        throw new BadRequestError("Invalid document id");
+      }
+
+      // Get the Durable Objects instance that holds this document
+      const doId = env.CONTENT.idFromName(documentId);
+      const contentDO = env.CONTENT.get(doId);
+
+      // Special handling for /content/{documentId} - serve the version published on a channel,
+      // production unless ?channel= names another
+      if (parts.length === 2 && request.method === 'GET') {
+        const channel = url.searchParams.get('channel') || DEFAULT_CHANNEL;
+        return await serveCached(request, publicCacheKey(url.origin, 'content', documentId, channel), ttl, ctx, async () => {
+          const headers = await getServiceHeaders(env);
+          const published = await getLatestPublishedVersion(contentDO, url.origin, documentId, headers, channel);
+          if (!published) {
+            throw new NotFoundError("No published content available");
+          }
+          return jsonResponse(published.version, 200, publishedHeaders(published));
+        });
+      }
+
+      // WebSocket upgrades for the change feed go straight to the Durable Object: the 101 response
+      // carries the socket and cannot be rebuilt with CORS headers
+      if (request.headers.get('Upgrade')?.toLowerCase() === 'websocket') {
+        const upgrade = await contentDO.fetch(`${url.origin}${pathname}${url.search}`, {
+          headers: request.headers
+        });
+        // Same runtime object, typed by @cloudflare/workers-types on the stub side
+        return upgrade as unknown as Response;
+      }
+
+      // Deleted channels and documents are no longer listed once the write went through
+      const purges = changesPublishedContent(request.method, parts);
+      const channelsBefore = purges && request.method === 'DELETE' ? await getChannelNames(contentDO, url.origin, documentId, env) : [];
+
       // Forward all other requests to Durable Objects
-      const response = await contentDO.fetch(request.url, {
+      const response = await contentDO.fetch(`${url.origin}${pathname}${url.search}`, {
         method: request.method,
         headers: request.headers,
         body: request.body
       });
+
+      // Publishing changes what the public routes serve
+      if (purges && response.ok) {
+        await purgePublished(url.origin, documentId, [...channelsBefore, ...await getChannelNames(contentDO, url.origin, documentId, env)]);
+      }
+
+      // Deleting a document's history removes it from the registry too. Documents written before the
+      // registry have no record there, so a 404 is expected.
+      if (request.method === 'DELETE' && parts.length === 2 && response.ok) {
+        await registry.fetch(`${url.origin}/documents/${documentId}`, {
+          method: 'DELETE',
+          headers: forwardedHeaders(request)
+        });
+      }
+
+      // Writing the first version of a document, or importing one, registers it
+      const registers = pathname === `/content/${documentId}/versions` || pathname === `/content/${documentId}/import`;
+      if (request.method === 'POST' && registers && response.ok) {
+        const ensured = await registry.fetch(`${url.origin}/documents/${documentId}/ensure`, {
+          method: 'PUT',
+          headers: forwardedHeaders(request)
+        });
+        if (ensured.status === 201) {
+          await putPageSettings(env, url.origin, await ensured.json() as DocumentRecord, forwardedHeaders(request));
+        }
+      }
       
       // Add CORS headers
       const newResponse = new Response(response.body, response);
@@ -214,17 +407,15 @@ export default {
       return newResponse;
 
     } catch (error) {
-      console.error('Worker error:', error);
-      return new Response(JSON.stringify({ 
-        error: 'Internal Server Error',
-        message: getErrorMessage(error)
-      }), { 
-        status: 500,
-        headers: {
-          'Content-Type': 'application/json',
-          ...corsHeaders 
-        }
+      if (!(error instanceof HttpError)) {
+        console.error('Worker error:', error);
+      }
+      // Same envelope as the errors of the Durable Objects
+      const response = errorResponse(error);
+      Object.entries(corsHeaders).forEach(([key, value]) => {
+        response.headers.set(key, value);
       });
+      return response;
     }
   }
 };
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { escapeHtml } from './diff';
+
+// Markdown to HTML for published pages. Text is escaped before any markup is added and raw HTML in
+// the source comes out as text, so a document cannot put its own tags or scripts on the page.
+// Covers headings, paragraphs, emphasis, code, links, images, block quotes, lists and rules.
+
+// Schemes links and images may use, relative URLs are allowed too
+const SAFE_SCHEMES = ['http:', 'https:', 'mailto:'];
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+-]*)/;
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>/;
+const LIST_ITEM = /^\s*([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+// Backslash escapes, code spans, images, links, strong and emphasis. A link label may hold an image,
+// for linked images. Underscores only count at word boundaries, so snake_case names stay as they are.
+const INLINE = /\\([\\`*_{}[\]()#+\-.!>])|`([^`]+)`|!\[([^\]]*)\]\(([^()\s]+)\)|\[((?:!\[[^\]]*\]\([^()\s]+\)|[^\]])+)\]\(([^()\s]+)\)|\*\*(.+?)\*\*|(?<![\w])__(.+?)__(?![\w])|\*(.+?)\*|(?<![\w])_(.+?)_(?![\w])/g;
+
+// The URL when it is safe to link to, null otherwise
+export function safeUrl(url: string): string | null {
+  // Browsers drop whitespace and control characters from URLs, which would let "java\tscript:" through
+  if ([...url].some(char => char.charCodeAt(0) <= 0x20 || char.charCodeAt(0) === 0x7f)) {
+    return null;
+  }
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*:)/i)?.[1].toLowerCase();
+  return !scheme || SAFE_SCHEMES.includes(scheme) ? url : null;
+}
+
+function renderToken(match: RegExpMatchArray): string {
+  const [, escaped, code, alt, src, label, href, strong, strongUnderscore, em, emUnderscore] = match;
+  if (escaped !== undefined) {
+    return escapeHtml(escaped);
+  }
+  if (code !== undefined) {
+    return `<code>${escapeHtml(code)}</code>`;
+  }
+  if (src !== undefined) {
+    const url = safeUrl(src);
+    return url ? `<img src="${escapeHtml(url)}" alt="${escapeHtml(alt)}">` : escapeHtml(alt);
+  }
+  if (href !== undefined) {
+    const url = safeUrl(href);
+    return url ? `<a href="${escapeHtml(url)}">${renderInline(label)}</a>` : renderInline(label);
+  }
+  if (strong !== undefined || strongUnderscore !== undefined) {
+    return `<strong>${renderInline(strong ?? strongUnderscore)}</strong>`;
+  }
+  return `<em>${renderInline(em ?? emUnderscore)}</em>`;
+}
+
+function renderInline(text: string): string {
+  let html = '';
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    html += escapeHtml(text.slice(last, match.index)) + renderToken(match);
+    last = (match.index as number) + match[0].length;
+  }
+  return html + escapeHtml(text.slice(last));
+}
+
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+// Lines of a paragraph or list item, two trailing spaces make a line break
+function renderLines(lines: string[]): string {
+  return lines.map(line => renderInline(line.trim()) + (/ {2,}$/.test(line) ? '<br>' : '')).join('\n');
+}
+
+export function renderMarkdown(source: string): string {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i++]);
+      }
+      // Skip the closing fence, an unclosed block runs to the end of the document
+      i++;
+      const language = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+      blocks.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i++].replace(/^\s*> ?/, ''));
+      }
+      blocks.push(`<blockquote>\n${renderMarkdown(quoted.join('\n'))}\n</blockquote>`);
+      continue;
+    }
+
+    const first = line.match(LIST_ITEM);
+    if (first) {
+      const ordered = /\d/.test(first[1]);
+      const items: string[][] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (item && /\d/.test(item[1]) === ordered && !RULE.test(lines[i])) {
+          items.push([item[2]]);
+        } else if (/^\s+\S/.test(lines[i]) && !startsBlock(lines[i])) {
+          // Indented lines continue the item above
+          items[items.length - 1].push(lines[i]);
+        } else {
+          break;
+        }
+        i++;
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      const start = ordered && parseInt(first[1], 10) !== 1 ? ` start="${parseInt(first[1], 10)}"` : '';
+      blocks.push(`<${tag}${start}>\n${items.map(item => `<li>${renderLines(item)}</li>`).join('\n')}\n</${tag}>`);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push(`<p>${renderLines(paragraph)}</p>`);
+  }
+
+  return blocks.join('\n');
+}
@@ -0,0 +1,222 @@
+import { applyPatch, parsePatch } from 'diff';
+import { deepEqual, hasOwn, isObject } from './contentTypes';
+import { BadRequestError, PatchRejectedError } from './errors';
+import { JsonPatchOperation, PatchFormat } from './types';
+
+export const PATCH_FORMATS: PatchFormat[] = ['unified', 'json-patch', 'merge-patch'];
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// Split a JSON Pointer (RFC 6901) into its unescaped reference tokens
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new Error(`"${pointer}" is not a JSON Pointer`);
+  }
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function arrayIndex(array: unknown[], token: string, allowEnd: boolean): number {
+  if (allowEnd && token === '-') {
+    return array.length;
+  }
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    throw new Error(`"${token}" is not an array index`);
+  }
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new Error(`index ${index} is out of bounds`);
+  }
+  return index;
+}
+
+// Container holding the value a pointer refers to, and the last token of the pointer
+function resolveParent(document: unknown, tokens: string[]): [Record<string, unknown> | unknown[], string] {
+  let current = document;
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, false)];
+    } else if (isObject(current) && hasOwn(current, token)) {
+      current = current[token];
+    } else {
+      throw new Error(`path /${tokens.join('/')} does not exist`);
+    }
+  }
+  if (!Array.isArray(current) && !isObject(current)) {
+    throw new Error(`path /${tokens.join('/')} does not exist`);
+  }
+  return [current, tokens[tokens.length - 1]];
+}
+
+function getValue(document: unknown, pointer: string): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    return document;
+  }
+  const [parent, key] = resolveParent(document, tokens);
+  if (Array.isArray(parent)) {
+    return parent[arrayIndex(parent, key, false)];
+  }
+  if (!hasOwn(parent, key)) {
+    throw new Error(`path ${pointer} does not exist`);
+  }
+  return parent[key];
+}
+
+// Each operation returns the new document, since operations on the root replace it
+function addValue(document: unknown, pointer: string, value: unknown): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    return value;
+  }
+  const [parent, key] = resolveParent(document, tokens);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return document;
+}
+
+function removeValue(document: unknown, pointer: string): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    throw new Error("the whole document cannot be removed");
+  }
+  const [parent, key] = resolveParent(document, tokens);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, false), 1);
+  } else {
+    if (!hasOwn(parent, key)) {
+      throw new Error(`path ${pointer} does not exist`);
+    }
+    delete parent[key];
+  }
+  return document;
+}
+
+// Apply a JSON Patch (RFC 6902). Operations apply in order and the whole patch fails if one does.
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+  let result = clone(document);
+  operations.forEach((operation, index) => {
+    try {
+      switch (operation.op) {
+        case 'add':
+          result = addValue(result, operation.path, clone(operation.value));
+          break;
+        case 'remove':
+          result = removeValue(result, operation.path);
+          break;
+        case 'replace':
+          getValue(result, operation.path);
+          result = operation.path === ''
+            ? clone(operation.value)
+            : addValue(removeValue(result, operation.path), operation.path, clone(operation.value));
+          break;
+        case 'move': {
+          const from = operation.from as string;
+          if (operation.path.startsWith(`${from}/`)) {
+            throw new Error("a value cannot be moved into one of its children");
+          }
+          const value = getValue(result, from);
+          result = addValue(removeValue(result, from), operation.path, value);
+          break;
+        }
+        case 'copy':
+          result = addValue(result, operation.path, clone(getValue(result, operation.from as string)));
+          break;
+        case 'test':
+          if (!deepEqual(getValue(result, operation.path), operation.value)) {
+            throw new Error(`value at ${operation.path} does not match`);
+          }
+          break;
+      }
+    } catch (err) {
+      throw new PatchRejectedError(`JSON Patch operation ${index} (${operation.op} ${operation.path}) failed: ${(err as Error).message}`, {
+        operation: index
+      });
+    }
+  });
+  return result;
+}
+
+// Apply a JSON Merge Patch (RFC 7386): objects merge key by key, null removes a key,
+// anything else replaces the target
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) {
+    return clone(patch);
+  }
+  const result: Record<string, unknown> = isObject(target) ? clone(target) : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(hasOwn(result, key) ? result[key] : undefined, value);
+    }
+  }
+  return result;
+}
+
+// Serialize a patched JSON document with the indentation of the document it came from
+function formatJson(value: unknown, original: string): string {
+  const indent = original.match(/^([ \t]+)["[{\]}]/m)?.[1] ?? (original.trim().includes('\n') ? '  ' : '');
+  const trailingNewline = original.endsWith('\n') ? '\n' : '';
+  return JSON.stringify(value, null, indent) + trailingNewline;
+}
+
+function checkOperations(patch: unknown): JsonPatchOperation[] {
+  const ops = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+  if (!Array.isArray(patch)) {
+    throw new BadRequestError("A JSON Patch must be an array of operations");
+  }
+  patch.forEach((operation, index) => {
+    if (!isObject(operation) || !ops.includes(operation.op as string) || typeof operation.path !== 'string') {
+      throw new BadRequestError(`JSON Patch operation ${index} must have an op (${ops.join(', ')}) and a path`);
+    }
+    if ((operation.op === 'move' || operation.op === 'copy') && typeof operation.from !== 'string') {
+      throw new BadRequestError(`JSON Patch operation ${index} (${operation.op}) must have a from`);
+    }
+    if (['add', 'replace', 'test'].includes(operation.op as string) && !hasOwn(operation, 'value')) {
+      throw new BadRequestError(`JSON Patch operation ${index} (${operation.op}) must have a value`);
+    }
+  });
+  return patch as JsonPatchOperation[];
+}
+
+// Compute the content a patch produces on top of a base version's content.
+// Malformed patches are a 400, patches that do not fit the base content a 422.
+export function applyVersionPatch(content: string, format: PatchFormat, patch: unknown, baseVersion: number): string {
+  if (format === 'unified') {
+    if (typeof patch !== 'string') {
+      throw new BadRequestError("A unified diff patch must be a string");
+    }
+    let files;
+    try {
+      files = parsePatch(patch);
+    } catch (err) {
+      throw new BadRequestError(`Invalid unified diff: ${(err as Error).message}`);
+    }
+    if (files.length !== 1) {
+      throw new BadRequestError("A unified diff patch must change exactly one file");
+    }
+    const result = applyPatch(content, files[0]);
+    if (result === false) {
+      throw new PatchRejectedError(`Patch does not apply to version ${baseVersion}`, { baseVersion });
+    }
+    return result;
+  }
+
+  const operations = format === 'json-patch' ? checkOperations(patch) : [];
+  let document: unknown;
+  try {
+    document = JSON.parse(content);
+  } catch {
+    throw new PatchRejectedError(`Version ${baseVersion} is not valid JSON, a ${format} cannot apply to it`, { baseVersion });
+  }
+  const result = format === 'json-patch' ? applyJsonPatch(document, operations) : applyMergePatch(document, patch);
+  return formatJson(result, content);
+}
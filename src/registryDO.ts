@@ -0,0 +1,227 @@
+import { appendAuditEntry, auditPage, listAuditEntries, matchesAuditQuery, parseAuditQuery, toNdjson, verifyAuditChain } from './audit';
+import { Identity, Role, authorize, signToken } from './auth';
+import { BadRequestError, ConflictError, NotFoundError, errorResponse } from './errors';
+import { parseBody } from './requests';
+import { DOCUMENT_TEMPLATES } from './templates';
+import { AuditChange, AuditEntry, DocumentRecord, UpdateDocumentRequest } from './types';
+
+// Document ids end up in URLs and Durable Object names, so keep them to a safe slug.
+// "versions" is reserved for the legacy single-document tag routes.
+const DOCUMENT_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+const RESERVED_DOCUMENT_IDS = ['versions'];
+
+// Tokens minted without an expiresIn last 30 days
+const DEFAULT_TOKEN_TTL = 30 * 24 * 3600;
+
+export function isValidDocumentId(id: string): boolean {
+  return DOCUMENT_ID_PATTERN.test(id) && !RESERVED_DOCUMENT_IDS.includes(id.toLowerCase());
+}
+
+// Single instance (named "registry") that keeps the list of documents, mints tokens and keeps the
+// audit log of both. The versions of each document live in their own ContentDO instance.
+export class RegistryDO {
+  private state: DurableObjectState;
+  private env: Env;
+
+  constructor(state: DurableObjectState, env: Env) {
+    this.state = state;
+    this.env = env;
+  }
+
+  private async getDocuments(): Promise<{ [id: string]: DocumentRecord }> {
+    return (await this.state.storage.get<{ [id: string]: DocumentRecord }>("documents")) || {};
+  }
+
+  async listDocuments(): Promise<DocumentRecord[]> {
+    const documents = await this.getDocuments();
+    return Object.values(documents).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async getDocument(id: string): Promise<DocumentRecord | null> {
+    const documents = await this.getDocuments();
+    return documents[id] || null;
+  }
+
+  async createDocument(id: string, name?: string): Promise<DocumentRecord> {
+    if (!isValidDocumentId(id)) {
+      throw new BadRequestError("Invalid document id");
+    }
+    const documents = await this.getDocuments();
+    if (documents[id]) {
+      throw new ConflictError("Document already exists");
+    }
+
+    const document: DocumentRecord = {
+      id,
+      name: name || id,
+      createdAt: new Date().toISOString()
+    };
+    documents[id] = document;
+    await this.state.storage.put("documents", documents);
+    return document;
+  }
+
+  // Rename a document or change the template its public pages use
+  async updateDocument(id: string, update: UpdateDocumentRequest): Promise<DocumentRecord> {
+    if (update.name !== undefined && (typeof update.name !== 'string' || !update.name.trim())) {
+      throw new BadRequestError("name must be a non-empty string");
+    }
+    if (update.template != null && !DOCUMENT_TEMPLATES.includes(update.template)) {
+      throw new BadRequestError(`template must be one of: ${DOCUMENT_TEMPLATES.join(', ')}`);
+    }
+    const documents = await this.getDocuments();
+    if (!documents[id]) {
+      throw new NotFoundError("Document not found");
+    }
+
+    const document: DocumentRecord = {
+      ...documents[id],
+      name: update.name ?? documents[id].name,
+      updatedAt: new Date().toISOString()
+    };
+    if (update.template === null) {
+      delete document.template;
+    } else if (update.template !== undefined) {
+      document.template = update.template;
+    }
+    documents[id] = document;
+    await this.state.storage.put("documents", documents);
+    return documents[id];
+  }
+
+  async deleteDocument(id: string): Promise<{ success: boolean; message: string }> {
+    const documents = await this.getDocuments();
+    if (!documents[id]) {
+      throw new NotFoundError("Document not found");
+    }
+
+    delete documents[id];
+    await this.state.storage.put("documents", documents);
+    return {
+      success: true,
+      message: `Document ${id} deleted successfully`
+    };
+  }
+
+  // Sign a token for another user. The token itself is returned once and never stored or logged.
+  async createToken(sub: string, role: Role, name: string | undefined, expiresIn: number): Promise<string> {
+    return signToken({ sub, role, name }, this.env.AUTH_SECRET, expiresIn);
+  }
+
+  // Append a change to the registry's audit log, chained to the entry before it
+  private async audit(actor: Identity, change: AuditChange, request: Request): Promise<AuditEntry> {
+    return appendAuditEntry(this.state, actor, change, request);
+  }
+
+  private async getAuditEntries(): Promise<AuditEntry[]> {
+    return listAuditEntries(this.state.storage);
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+      const parts = url.pathname.split('/').filter(Boolean);
+      return await this.handleRequest(request, parts);
+    } catch (err) {
+      return errorResponse(err);
+    }
+  }
+
+  private async handleRequest(request: Request, parts: string[]): Promise<Response> {
+    const path = parts.join('/');
+
+    switch (`${request.method} ${path}`) {
+      case 'GET documents': {
+        await authorize(request, this.env.AUTH_SECRET, 'viewer');
+        const documents = await this.listDocuments();
+        return Response.json(documents);
+      }
+
+      case 'POST documents': {
+        const identity = await authorize(request, this.env.AUTH_SECRET, 'editor');
+        const body = await parseBody(request, 'createDocument');
+        const document = await this.createDocument(body.id, body.name);
+        await this.audit(identity, { action: 'document.create', target: { type: 'document', id: document.id }, after: document }, request);
+        return Response.json(document);
+      }
+
+      case `GET documents/${parts[1]}`: {
+        await authorize(request, this.env.AUTH_SECRET, 'viewer');
+        const document = await this.getDocument(parts[1]);
+        if (!document) {
+          throw new NotFoundError(`Document ${parts[1]} not found`);
+        }
+        return Response.json(document);
+      }
+
+      // Register a document the first time content is written to it. A 201 tells the worker it is new.
+      case `PUT documents/${parts[1]}/ensure`: {
+        const identity = await authorize(request, this.env.AUTH_SECRET, 'editor');
+        const existing = await this.getDocument(parts[1]);
+        if (existing) {
+          return Response.json(existing);
+        }
+        const document = await this.createDocument(parts[1]);
+        await this.audit(identity, { action: 'document.create', target: { type: 'document', id: document.id }, after: document }, request);
+        return Response.json(document, { status: 201 });
+      }
+
+      case `PATCH documents/${parts[1]}`: {
+        const identity = await authorize(request, this.env.AUTH_SECRET, 'editor');
+        const body = await parseBody(request, 'updateDocument');
+        const before = await this.getDocument(parts[1]);
+        const document = await this.updateDocument(parts[1], body);
+        await this.audit(identity, { action: 'document.update', target: { type: 'document', id: document.id }, before, after: document }, request);
+        return Response.json(document);
+      }
+
+      case `DELETE documents/${parts[1]}`: {
+        const identity = await authorize(request, this.env.AUTH_SECRET, 'admin');
+        const before = await this.getDocument(parts[1]);
+        const result = await this.deleteDocument(parts[1]);
+        await this.audit(identity, { action: 'document.delete', target: { type: 'document', id: parts[1] }, before }, request);
+        return Response.json(result);
+      }
+
+      // Admins mint tokens for other users
+      case 'POST auth/tokens': {
+        const identity = await authorize(request, this.env.AUTH_SECRET, 'admin');
+        const body = await parseBody(request, 'createToken');
+        const expiresIn = body.expiresIn || DEFAULT_TOKEN_TTL;
+        const token = await this.createToken(body.sub, body.role, body.name, expiresIn);
+        await this.audit(identity, {
+          action: 'token.create',
+          target: { type: 'token', id: body.sub },
+          after: { sub: body.sub, role: body.role, name: body.name, expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString() }
+        }, request);
+        return Response.json({ token, expiresIn });
+      }
+
+      case 'GET audit': {
+        await authorize(request, this.env.AUTH_SECRET, 'admin');
+        const query = parseAuditQuery(new URL(request.url).searchParams);
+        return Response.json(auditPage(await this.getAuditEntries(), query));
+      }
+
+      case 'GET audit/export': {
+        await authorize(request, this.env.AUTH_SECRET, 'admin');
+        const query = parseAuditQuery(new URL(request.url).searchParams);
+        const entries = (await this.getAuditEntries()).filter(entry => matchesAuditQuery(entry, query));
+        return new Response(toNdjson(entries), {
+          headers: {
+            'Content-Type': 'application/x-ndjson',
+            'Content-Disposition': 'attachment; filename="registry-audit.ndjson"'
+          }
+        });
+      }
+
+      case 'GET audit/verify': {
+        await authorize(request, this.env.AUTH_SECRET, 'admin');
+        return Response.json(await verifyAuditChain(await this.getAuditEntries()));
+      }
+
+      default:
+        throw new NotFoundError('No route matched: ' + request.method + ' ' + path);
+    }
+  }
+}
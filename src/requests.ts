@@ -0,0 +1,132 @@
+import { CreateTokenRequest, ROLES } from './auth';
+import { CONTENT_TYPES, validateSchema } from './contentTypes';
+import { BadRequestError, RequestValidationError } from './errors';
+import { PATCH_FORMATS } from './patches';
+import { DOCUMENT_TEMPLATES } from './templates';
+import { WEBHOOK_EVENTS } from './webhooks';
+import {
+  ContentTypeSettings,
+  CreateBranchRequest,
+  CreateDocumentRequest,
+  CreatePreviewRequest,
+  CreateScheduleRequest,
+  CreateTagRequest,
+  CreateVersionRequest,
+  CreateWebhookRequest,
+  JsonSchema,
+  MergeRequest,
+  PageSettings,
+  PromoteChannelRequest,
+  PublishVersionRequest,
+  RevertVersionRequest,
+  ReviewDecisionRequest,
+  ReviewSettings,
+  SubmitReviewRequest,
+  UpdateDocumentRequest,
+  UpdateTagRequest
+} from './types';
+
+interface RequestBodies {
+  createVersion: CreateVersionRequest;
+  revertVersion: RevertVersionRequest;
+  publishVersion: PublishVersionRequest;
+  promoteChannel: PromoteChannelRequest;
+  createTag: CreateTagRequest;
+  updateTag: UpdateTagRequest;
+  submitReview: SubmitReviewRequest;
+  reviewDecision: ReviewDecisionRequest;
+  reviewSettings: ReviewSettings;
+  contentType: ContentTypeSettings;
+  createSchedule: CreateScheduleRequest;
+  createPreview: CreatePreviewRequest;
+  createWebhook: CreateWebhookRequest;
+  createBranch: CreateBranchRequest;
+  merge: MergeRequest;
+  createDocument: CreateDocumentRequest;
+  updateDocument: UpdateDocumentRequest;
+  pageSettings: PageSettings;
+  createToken: CreateTokenRequest;
+}
+
+const versionId: JsonSchema = { type: 'integer', minimum: 1 };
+// 0 is the base of a document that has no versions on main yet
+const baseVersion: JsonSchema = { type: 'integer', minimum: 0 };
+const name: JsonSchema = { type: 'string', minLength: 1 };
+const text: JsonSchema = { type: 'string' };
+
+// Shape of each JSON request body. Checks that depend on the document, like whether a version exists
+// or a name is taken, are left to the operations.
+const REQUEST_SCHEMAS: { [K in keyof RequestBodies]: JsonSchema } = {
+  createVersion: {
+    type: 'object',
+    properties: { content: text, patch: {}, patchFormat: { enum: PATCH_FORMATS }, message: text, branch: name, baseVersion }
+  },
+  revertVersion: { type: 'object', required: ['versionId'], properties: { versionId, branch: name, baseVersion } },
+  publishVersion: { type: 'object', properties: { baseVersion, channel: name } },
+  promoteChannel: { type: 'object', required: ['from'], properties: { from: name, baseVersion } },
+  createTag: { type: 'object', required: ['versionId', 'name'], properties: { versionId, name } },
+  updateTag: { type: 'object', required: ['newName'], properties: { newName: name } },
+  submitReview: { type: 'object', properties: { reviewers: { type: 'array', items: name } } },
+  reviewDecision: { type: 'object', properties: { comment: text } },
+  reviewSettings: { type: 'object', required: ['requiredApprovals'], properties: { requiredApprovals: { type: 'integer', minimum: 0 } } },
+  contentType: {
+    type: 'object',
+    required: ['contentType'],
+    properties: { contentType: { enum: CONTENT_TYPES }, schema: { type: 'object' } }
+  },
+  createSchedule: {
+    type: 'object',
+    required: ['action', 'versionId', 'runAt'],
+    properties: { action: { enum: ['publish', 'unpublish'] }, versionId, runAt: name, channel: name }
+  },
+  createPreview: { type: 'object', properties: { versionId, tag: name, expiresIn: { type: 'integer', minimum: 1 } } },
+  createWebhook: {
+    type: 'object',
+    required: ['url'],
+    properties: { url: name, events: { type: 'array', items: { enum: WEBHOOK_EVENTS } }, secret: { type: 'string', minLength: 16 } }
+  },
+  createBranch: { type: 'object', required: ['name'], properties: { name, fromVersion: versionId } },
+  merge: {
+    type: 'object',
+    required: ['source'],
+    properties: { source: name, target: name, message: text, content: text, commit: { type: 'boolean' } }
+  },
+  createDocument: { type: 'object', required: ['id'], properties: { id: name, name } },
+  updateDocument: { type: 'object', properties: { name, template: { enum: [...DOCUMENT_TEMPLATES, null] } } },
+  pageSettings: { type: 'object', required: ['name'], properties: { name, template: { enum: [...DOCUMENT_TEMPLATES] } } },
+  createToken: {
+    type: 'object',
+    required: ['sub', 'role'],
+    properties: { sub: name, role: { enum: [...ROLES] }, name: text, expiresIn: { type: 'integer', minimum: 1 } }
+  }
+};
+
+// Read a JSON request body and check it against the schema of its kind. Problems are reported per
+// field, by JSON Pointer. An empty body reads as {}, so routes whose fields are all optional accept none.
+export async function parseBody<K extends keyof RequestBodies>(request: Request, kind: K): Promise<RequestBodies[K]> {
+  const raw = await request.text();
+  let body: unknown;
+  try {
+    body = raw.trim() ? JSON.parse(raw) : {};
+  } catch {
+    throw new BadRequestError("Request body must be valid JSON");
+  }
+  const errors = validateSchema(body, REQUEST_SCHEMAS[kind]);
+  if (errors.length > 0) {
+    throw new RequestValidationError("Invalid request body", errors);
+  }
+  return body as RequestBodies[K];
+}
+
+// Integer query parameter, undefined when it is absent. parseInt would read "2x" as 2 and Number would
+// read "" as 0 and "1e3" as 1000, so only plain digits are accepted.
+export function parseIntegerParam(params: URLSearchParams, name: string, min: number, error: string): number | undefined {
+  const value = params.get(name);
+  if (value === null) {
+    return undefined;
+  }
+  if (!/^[0-9]+$/.test(value) || Number(value) < min) {
+    throw new BadRequestError(error);
+  }
+  return Number(value);
+}
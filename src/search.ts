@@ -0,0 +1,104 @@
+import { escapeHtml } from './diff';
+import { BadRequestError } from './errors';
+import { SearchField } from './types';
+
+export const SEARCH_FIELDS: SearchField[] = ['content', 'message'];
+
+// Longer tokens are not indexed: they are rarely searched for and would make oversized keys
+const MAX_TOKEN_LENGTH = 64;
+// Characters of context kept on each side of the first match in a snippet
+const SNIPPET_RADIUS = 60;
+
+interface Token {
+  token: string;
+  start: number;
+  end: number;
+}
+
+// Split text into lowercase words of letters and digits, keeping where each one sits in the text
+function tokenizeWithOffsets(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const start = match.index ?? 0;
+    tokens.push({ token: match[0].toLowerCase(), start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+export function tokenize(text: string): string[] {
+  return tokenizeWithOffsets(text).map(t => t.token);
+}
+
+// Index term of a token within a field, e.g. "m:pricing" for a word of a commit message
+export function fieldTerm(field: SearchField, token: string): string {
+  return `${field[0]}:${token}`;
+}
+
+// Every distinct term a version contributes to the index
+export function indexTerms(version: { content: string; message: string }): string[] {
+  const terms = new Set<string>();
+  for (const field of SEARCH_FIELDS) {
+    for (const token of tokenize(version[field] || '')) {
+      if (token.length <= MAX_TOKEN_LENGTH) {
+        terms.add(fieldTerm(field, token));
+      }
+    }
+  }
+  return [...terms];
+}
+
+// Split a query into its parts: "quoted phrases" and single words. Each part is a list of tokens
+// and a version matches when every part appears in it.
+export function parseSearchQuery(query: string): string[][] {
+  const parts: string[][] = [];
+  for (const match of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const tokens = tokenize(match[1] ?? match[2]).filter(token => token.length <= MAX_TOKEN_LENGTH);
+    if (tokens.length > 0) {
+      parts.push(tokens);
+    }
+  }
+  if (parts.length === 0) {
+    throw new BadRequestError("q must contain at least one word to search for");
+  }
+  return parts;
+}
+
+// Character ranges of every occurrence of the query parts in a text, in order,
+// or null when one of the parts does not occur at all
+export function findMatches(text: string, parts: string[][]): Array<[number, number]> | null {
+  const tokens = tokenizeWithOffsets(text);
+  const ranges: Array<[number, number]> = [];
+  for (const part of parts) {
+    let found = false;
+    for (let i = 0; i + part.length <= tokens.length; i++) {
+      if (part.every((token, offset) => tokens[i + offset].token === token)) {
+        ranges.push([tokens[i].start, tokens[i + part.length - 1].end]);
+        found = true;
+      }
+    }
+    if (!found) {
+      return null;
+    }
+  }
+  return ranges.sort((a, b) => a[0] - b[0]);
+}
+
+// Escaped excerpt around the first match, with the matches in it wrapped in <mark>
+export function buildSnippet(text: string, ranges: Array<[number, number]>): string {
+  const [firstStart, firstEnd] = ranges[0];
+  const start = Math.max(0, firstStart - SNIPPET_RADIUS);
+  const end = Math.min(text.length, firstEnd + SNIPPET_RADIUS);
+
+  let snippet = '';
+  let position = start;
+  for (const [rangeStart, rangeEnd] of ranges) {
+    if (rangeStart < position || rangeEnd > end) {
+      continue;
+    }
+    snippet += escapeHtml(text.slice(position, rangeStart)) + '<mark>' + escapeHtml(text.slice(rangeStart, rangeEnd)) + '</mark>';
+    position = rangeEnd;
+  }
+  snippet += escapeHtml(text.slice(position, end));
+
+  return (start > 0 ? '…' : '') + snippet.replace(/\s+/g, ' ').trim() + (end < text.length ? '…' : '');
+}
@@ -0,0 +1,164 @@
+import { parseFrontMatter } from './contentTypes';
+import { escapeHtml } from './diff';
+import { renderMarkdown } from './markdown';
+import { DocumentTemplate, PageView, SiteConfig } from './types';
+
+export const DOCUMENT_TEMPLATES: DocumentTemplate[] = ['default', 'article', 'minimal'];
+
+const DEFAULT_SITE_TITLE = 'Content Version System';
+
+interface SiteBindings {
+  SITE_TITLE?: string;
+  BASE_URL?: string;
+  STYLESHEET_URL?: string;
+}
+
+// Site settings from the environment, the management link falls back to the worker's own origin
+export function getSiteConfig(env: SiteBindings, origin: string): SiteConfig {
+  return {
+    title: env.SITE_TITLE || DEFAULT_SITE_TITLE,
+    baseUrl: env.BASE_URL || origin,
+    stylesheetUrl: env.STYLESHEET_URL || undefined
+  };
+}
+
+const styles = `
+        body {
+            font-family: system-ui, sans-serif;
+            max-width: 800px;
+            margin: 0 auto;
+            padding: 20px;
+        }
+        .content {
+            background: #f5f5f5;
+            padding: 20px;
+            border-radius: 8px;
+            margin: 20px 0;
+        }
+        .template-article .content,
+        .template-minimal .content {
+            background: none;
+            padding: 0;
+        }
+        .template-article .body {
+            font-family: Georgia, serif;
+            font-size: 1.1em;
+            line-height: 1.6;
+        }
+        .button {
+            background: #0070f3;
+            color: white;
+            padding: 12px 24px;
+            border-radius: 5px;
+            text-decoration: none;
+            display: inline-block;
+            margin-top: 20px;
+        }
+        .button:hover {
+            background: #0051a2;
+        }
+        pre {
+            white-space: pre-wrap;
+            word-wrap: break-word;
+        }
+        img {
+            max-width: 100%;
+        }
+        blockquote {
+            border-left: 4px solid #ddd;
+            margin-left: 0;
+            padding-left: 16px;
+            color: #555;
+        }
+        .meta {
+            color: #666;
+            font-size: 0.9em;
+            margin-bottom: 10px;
+        }
+        .preview-banner {
+            background: #fff3cd;
+            border: 1px solid #e0c36c;
+            color: #664d03;
+            padding: 12px 16px;
+            border-radius: 8px;
+        }`;
+
+// Markdown is rendered without its front matter, anything else is shown as it was written
+function renderBody(view: PageView): string {
+  if (view.contentType === 'markdown') {
+    let body = view.content;
+    try {
+      ({ body } = parseFrontMatter(view.content));
+    } catch {
+      // Content with broken front matter is still shown, front matter and all
+    }
+    return `<div class="body">${renderMarkdown(body)}</div>`;
+  }
+  return `<pre class="body">${escapeHtml(view.content)}</pre>`;
+}
+
+function renderMeta(view: PageView): string {
+  const lines = [
+    view.message ? `<strong>Message:</strong> ${escapeHtml(view.message)}` : '',
+    view.timestamp ? `<strong>Last Updated:</strong> ${escapeHtml(new Date(view.timestamp).toLocaleString())}` : ''
+  ].filter(Boolean);
+  return lines.length ? `<div class="meta">${lines.join('<br>')}</div>` : '';
+}
+
+function renderPreviewBanner(view: PageView): string {
+  if (!view.preview) {
+    return '';
+  }
+  const expires = escapeHtml(new Date(view.preview.expiresAt).toLocaleString());
+  return `<div class="preview-banner"><strong>Preview</strong> of version ${view.preview.versionId}, which may not be published. This link expires ${expires}.</div>`;
+}
+
+function renderMain(view: PageView, site: SiteConfig): string {
+  switch (view.template) {
+    case 'article':
+      return `
+    <article class="content">
+        <h1>${escapeHtml(view.name || site.title)}</h1>
+        ${renderBody(view)}
+        <footer>${renderMeta(view)}</footer>
+    </article>`;
+    case 'minimal':
+      return `
+    <div class="content">
+        ${renderBody(view)}
+    </div>`;
+    default:
+      return `
+    <h1>${escapeHtml(site.title)}</h1>
+    <div class="content">
+        ${renderMeta(view)}
+        <h2>Current Content:</h2>
+        ${renderBody(view)}
+    </div>
+    <a href="${escapeHtml(site.baseUrl)}" class="button">Content Version Management</a>`;
+  }
+}
+
+// Full HTML page for a version. Every value from a document is escaped or rendered through the
+// Markdown renderer, which escapes too.
+export function renderPage(view: PageView, site: SiteConfig): string {
+  const template = view.template || 'default';
+  const title = template === 'article' && view.name ? `${view.name} - ${site.title}` : site.title;
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    ${view.preview ? '<meta name="robots" content="noindex, nofollow">' : ''}
+    <title>${escapeHtml(title)}</title>
+    <style>${styles}
+    </style>
+    ${site.stylesheetUrl ? `<link rel="stylesheet" href="${escapeHtml(site.stylesheetUrl)}">` : ''}
+</head>
+<body class="template-${template}">
+    ${renderPreviewBanner(view)}${renderMain({ ...view, template }, site)}
+</body>
+</html>
+`;
+}
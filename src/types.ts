@@ -1,6 +1,9 @@
 // Core version statuses - Define possible states of a content version
 export enum VersionStatus {
     DRAFT = 'draft',
+    IN_REVIEW = 'in_review',
+    APPROVED = 'approved',
+    REJECTED = 'rejected',
     PUBLISHED = 'published',
     ARCHIVED = 'archived'
   }
@@ -13,6 +16,33 @@ export enum VersionStatus {
     message: string;
     diff?: ContentDiff;
     status: VersionStatus;
+    // Versions this one was created from: one for a normal edit, two for a merge
+    parents: number[];
+    branch: string;
+    // Subject of the token that created the version
+    author?: string;
+    review?: VersionReview;
+  }
+
+  // Review workflow - Track who was asked to review a version and what they decided
+  export interface ReviewDecision {
+    reviewer: string;
+    decision: 'approved' | 'rejected';
+    comment?: string;
+    decidedAt: string;
+  }
+
+  export interface VersionReview {
+    submittedBy?: string;
+    submittedAt: string;
+    // Empty means any editor other than the author may review
+    reviewers: string[];
+    decisions: ReviewDecision[];
+  }
+
+  export interface ReviewSettings {
+    // Approvals a version needs before it can be published, 0 disables the review requirement
+    requiredApprovals: number;
   }
   
   export interface Tag {
@@ -23,12 +53,78 @@ export enum VersionStatus {
   }
   
   // State management - Define how content versions and states are tracked
+  export interface DocumentMeta {
+    // Ids are never reused, even after the latest version is deleted
+    nextVersionId: number;
+    // Incremented on every write, part of the document ETag
+    revision: number;
+    // Last sequence number used for a publish record key
+    publishSequence: number;
+    // The head of main is the version the document ETag carries
+    branches: { [name: string]: Branch };
+    reviewSettings: ReviewSettings;
+    contentType?: ContentType;
+    schema?: JsonSchema;
+    // Set once every existing version is in the search index, documents created earlier are indexed on first search
+    searchIndexed?: boolean;
+    // The published version is the one live on production. Absent on documents from before channels,
+    // derived from the published version on first use.
+    channels?: { [name: string]: Channel };
+    // Copy of the registry's page settings. Absent until the registry record is first created or changed.
+    page?: PageSettings;
+  }
+
+  // Heavy part of a version as stored before delta compression; still read until compacted
+  export type VersionContent = Pick<Version, 'content' | 'diff'>;
+
+  // Diff of a version as stored: the patch and its counts, without the two full contents
+  export type StoredDiff = Pick<ContentDiff, 'patch' | 'changes'>;
+
+  // Heavy part of a version as stored. Every few versions the full content is kept as a snapshot,
+  // in between only the patch against the first parent is, and the content is rebuilt on read.
+  export interface StoredContent {
+    // First parent, the version the patch applies to
+    base?: number;
+    // Full content, only on snapshots
+    content?: string;
+    // Number of patches to apply on top of the nearest snapshot, 0 for a snapshot
+    depth: number;
+    diff?: StoredDiff;
+  }
+
+  // Outcome of rewriting a document's stored content
+  export interface CompactionReport {
+    versions: number;
+    snapshots: number;
+    deltas: number;
+    // Content records left behind by versions that no longer exist
+    orphansRemoved: number;
+    // Sizes of the serialized content records, before and after
+    bytesBefore: number;
+    bytesAfter: number;
+    bytesSaved: number;
+  }
+
+  // Whole document under one storage key, the format used before storage was split.
+  // Only read to migrate existing documents.
   export interface ContentState {
     currentVersion: number;
     versions: Version[];
     tags: { [key: string]: Tag };
     content: string | null;
     publishHistory: PublishRecord[];
+    branches?: { [name: string]: Branch };
+    revision?: number;
+    reviewSettings?: ReviewSettings;
+    schedules?: Schedule[];
+  }
+
+  // Branching - Each branch moves its own head as versions are created on it
+  export interface Branch {
+    name: string;
+    head: number;
+    createdAt: string;
+    updatedAt?: string;
   }
   
   // Change tracking - tracking differences between versions
@@ -36,19 +132,27 @@ export enum VersionStatus {
     from: string;
     to: string;
     changes: {
+      // Lines added and removed, as in `git diff --numstat`
       additions: number;
       deletions: number;
+      // Removed lines that were replaced in place by added lines
+      modifications: number;
       totalChanges: number;
       timestamp: string;
     };
     patch: string;
-    hunks: Array<{
-      oldStart: number;
-      oldLines: number;
-      newStart: number;
-      newLines: number;
-      lines: string[];
-    }>;
+    hunks: DiffHunk[];
+    // Added, removed and changed paths, when both versions of a JSON document parse
+    semantic?: JsonChange[];
+  }
+
+  // One hunk of a line diff, `lines` keep their ' ', '+' or '-' prefix
+  export interface DiffHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: string[];
   }
   
   // Publishing system - Track publishing events and history
@@ -56,6 +160,54 @@ export enum VersionStatus {
     versionId: number;
     publishedAt: string;
     publishedBy: string;
+    // Records written by a schedule; manual records are always publishes
+    action?: ScheduleAction;
+    scheduleId?: string;
+    // Channel the version was published on, absent on records from before channels (production)
+    channel?: string;
+    // Channel the version was promoted from
+    promotedFrom?: string;
+  }
+
+  // Publish channels - Each channel (production, staging, preview...) serves its own version.
+  // The version on the production channel is the one with the published status.
+  export interface Channel {
+    name: string;
+    // 0 when nothing is published on the channel
+    versionId: number;
+    updatedAt?: string;
+    updatedBy?: string;
+  }
+
+  // What a channel serves, in one read for the public routes
+  export interface PublishedVersion {
+    channel: string;
+    // When the version went live on the channel
+    publishedAt?: string;
+    contentType: ContentType;
+    page?: PageSettings;
+    version: Version;
+  }
+
+  // Scheduled publishing - Publish or unpublish at a future time, run by the Durable Object alarm
+  export type ScheduleAction = 'publish' | 'unpublish';
+
+  export interface Schedule {
+    id: string;
+    action: ScheduleAction;
+    versionId: number;
+    runAt: string;
+    createdBy: string;
+    createdAt: string;
+    status: 'pending' | 'done' | 'failed' | 'cancelled';
+    executedAt?: string;
+    error?: string;
+    // Channel to publish on or unpublish from, production when absent
+    channel?: string;
+    // Where the public pages of the document are cached, to purge them once the schedule ran.
+    // Absent on schedules created before they were purged.
+    documentId?: string;
+    origin?: string;
   }
   
   // API response types - Standardized response structures for the API
@@ -63,6 +215,8 @@ export enum VersionStatus {
     success: boolean;
     data?: T;
     error?: string;
+    // Problems with each field of a rejected request body or content, by JSON Pointer
+    errors?: ValidationIssue[];
   }
   
   export interface DeleteVersionResponse {
@@ -81,13 +235,56 @@ export enum VersionStatus {
   }
 
   // Thêm các interface mới cho API requests
+  // Either the full content, or a patch against baseVersion that the server applies
   export interface CreateVersionRequest {
-    content: string;
-    message: string;
+    content?: string;
+    // A unified diff string, a JSON Patch operation list or a JSON Merge Patch document
+    patch?: unknown;
+    patchFormat?: PatchFormat;
+    // Empty when left out
+    message?: string;
+    branch?: string;
+    // Head the client last saw, same as an If-Match header
+    baseVersion?: number;
+  }
+
+  export type PatchFormat = 'unified' | 'json-patch' | 'merge-patch';
+
+  // One operation of a JSON Patch (RFC 6902)
+  export interface JsonPatchOperation {
+    op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+    path: string;
+    from?: string;
+    value?: unknown;
   }
   
+  // publishedBy is taken from the verified token, the body only carries the precondition
   export interface PublishVersionRequest {
-    publishedBy: string;
+    baseVersion?: number;
+    // Defaults to production
+    channel?: string;
+  }
+
+  // A preview link is for one version, given by id or by one of its tags
+  export interface CreatePreviewRequest {
+    versionId?: number;
+    tag?: string;
+    // Lifetime of the link in seconds
+    expiresIn?: number;
+  }
+
+  export interface PreviewLink {
+    url: string;
+    documentId: string;
+    versionId: number;
+    tag?: string;
+    expiresAt: string;
+  }
+
+  export interface PromoteChannelRequest {
+    // Channel whose version is published on the target channel
+    from: string;
+    baseVersion?: number;
   }
   
   export interface CreateTagRequest {
@@ -101,6 +298,484 @@ export enum VersionStatus {
   
   export interface RevertVersionRequest {
     versionId: number;
+    branch?: string;
+    baseVersion?: number;
+  }
+
+  export interface SubmitReviewRequest {
+    reviewers?: string[];
+  }
+
+  export interface ReviewDecisionRequest {
+    comment?: string;
+  }
+
+  export interface CreateScheduleRequest {
+    action: ScheduleAction;
+    versionId: number;
+    // ISO 8601 timestamp
+    runAt: string;
+    channel?: string;
+  }
+
+  export interface CreateBranchRequest {
+    name: string;
+    // Version the branch starts from, defaults to the head of the main branch
+    fromVersion?: number;
+  }
+
+  export interface MergeRequest {
+    source: string;
+    target?: string;
+    message?: string;
+    // Resolved content for a merge that had conflicts
+    content?: string;
+    // Set to false to preview the merge without creating a version
+    commit?: boolean;
   }
   
-  export type VersionListItem = Omit<Version, 'content' | 'diff'>;
\ No newline at end of file
+  export type VersionListItem = Omit<Version, 'content' | 'diff'>;
+
+  // Document registry - Track which documents exist in this deployment
+  // Page layouts a document can be shown with on the public routes
+  export type DocumentTemplate = 'default' | 'article' | 'minimal';
+
+  export interface DocumentRecord {
+    id: string;
+    name: string;
+    // Unset means the default template
+    template?: DocumentTemplate;
+    createdAt: string;
+    updatedAt?: string;
+  }
+
+  // Name and template of a document's public pages. The registry owns them; the document keeps a copy
+  // so that a page is rendered from a single Durable Object call.
+  export type PageSettings = Pick<DocumentRecord, 'name' | 'template'>;
+
+  export interface CreateDocumentRequest {
+    id: string;
+    name?: string;
+  }
+
+  export interface UpdateDocumentRequest {
+    name?: string;
+    // null goes back to the default template
+    template?: DocumentTemplate | null;
+  }
+
+
+  // Inline diffs - Word, character or sentence level changes for prose content
+  export type DiffMode = 'lines' | 'words' | 'chars' | 'sentences';
+
+  export interface InlineChange {
+    type: 'equal' | 'insert' | 'delete';
+    value: string;
+  }
+
+  export interface InlineDiff {
+    fromVersion: number;
+    toVersion: number;
+    mode: DiffMode;
+    changes: InlineChange[];
+  }
+
+
+  // Merging - Result of a three-way merge between two branch heads
+  export interface MergeConflict {
+    // 1-based line of the conflict marker in the merged content
+    line: number;
+    base: string[];
+    ours: string[];
+    theirs: string[];
+  }
+
+  export interface MergeResult {
+    status: 'up-to-date' | 'fast-forward' | 'clean' | 'merged' | 'conflict';
+    source: string;
+    target: string;
+    baseVersion: number | null;
+    content: string;
+    conflicts: MergeConflict[];
+    version?: Version;
+  }
+
+  // Version listing - Filters, sorting and cursor pagination for GET /versions
+  export type VersionSortField = 'id' | 'timestamp';
+
+  export interface VersionQuery {
+    limit: number;
+    cursor?: string;
+    statuses?: VersionStatus[];
+    tag?: string;
+    author?: string;
+    branch?: string;
+    from?: string;
+    to?: string;
+    sort: VersionSortField;
+    order: 'asc' | 'desc';
+    view: 'summary' | 'full';
+    includeArchived: boolean;
+  }
+
+  export interface VersionPage<T> {
+    items: T[];
+    // Pass back as ?cursor= to get the next page, null on the last page
+    nextCursor: string | null;
+    total: number;
+  }
+
+  // Content types - How the content of a document is validated and compared
+  export type ContentType = 'text' | 'json' | 'markdown';
+
+  export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+  // The supported subset of JSON Schema
+  export interface JsonSchema {
+    type?: JsonSchemaType | JsonSchemaType[];
+    enum?: unknown[];
+    const?: unknown;
+    properties?: { [key: string]: JsonSchema };
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minItems?: number;
+    maxItems?: number;
+  }
+
+  export interface ContentTypeSettings {
+    contentType: ContentType;
+    // JSON Schema for the document (JSON) or for its front matter (Markdown)
+    schema?: JsonSchema;
+  }
+
+  export interface ValidationIssue {
+    // JSON Pointer to the offending value, empty for the whole document
+    path: string;
+    message: string;
+  }
+
+  export interface ContentValidation {
+    versionId: number;
+    contentType: ContentType;
+    valid: boolean;
+    errors: ValidationIssue[];
+  }
+
+  export interface JsonChange {
+    type: 'added' | 'removed' | 'changed';
+    // JSON Pointer of the value
+    path: string;
+    from?: unknown;
+    to?: unknown;
+  }
+
+  // Change events - Every change to a document is logged, pushed to connected clients and sent to webhooks
+  export type ChangeEventType =
+    | 'version.created'
+    | 'version.reverted'
+    | 'version.deleted'
+    | 'version.published'
+    | 'version.unpublished'
+    | 'tag.created'
+    | 'tag.updated'
+    | 'tag.deleted';
+
+  export interface ChangeEvent {
+    // Increasing per document, clients resume a feed from the last id they saw
+    id: number;
+    type: ChangeEventType;
+    timestamp: string;
+    data: Record<string, unknown>;
+  }
+
+  // Messages sent to clients of the change feed
+  export type FeedMessage =
+    | { type: 'ready'; lastEventId: number }
+    | { type: 'event'; event: ChangeEvent }
+    // The events after the requested id are no longer in the log, the client should reload
+    | { type: 'reset'; oldestEventId: number }
+    | { type: 'pong' }
+    | { type: 'error'; error: string };
+
+  // Messages clients send over the change feed
+  export type FeedRequest =
+    | { type: 'ping' }
+    | { type: 'resume'; since: number };
+
+  // Webhooks - Subscribers notified of changes to a document
+
+  export interface Webhook {
+    id: string;
+    documentId: string;
+    url: string;
+    // Events to deliver, all of them when empty
+    events: ChangeEventType[];
+    // Key of the HMAC signature sent with every delivery
+    secret: string;
+    createdAt: string;
+    createdBy: string;
+  }
+
+  // Webhooks as listed: the secret is only returned once, when subscribing
+  export type WebhookView = Omit<Webhook, 'secret'>;
+
+  export interface CreateWebhookRequest {
+    url: string;
+    events?: ChangeEventType[];
+    secret?: string;
+  }
+
+  // Body POSTed to subscribers
+  export interface WebhookPayload {
+    // Delivery id, the same on every attempt of a delivery
+    id: string;
+    // Id of the change event in the document's event log
+    eventId: number;
+    event: ChangeEventType;
+    documentId: string;
+    timestamp: string;
+    data: unknown;
+  }
+
+  export interface WebhookDelivery {
+    id: string;
+    webhookId: string;
+    event: ChangeEventType;
+    payload: WebhookPayload;
+    status: 'pending' | 'delivered' | 'failed';
+    attempts: number;
+    nextAttemptAt?: string;
+    lastAttemptAt?: string;
+    // Status code of the last response, absent when the subscriber could not be reached
+    responseStatus?: number;
+    error?: string;
+    createdAt: string;
+    deliveredAt?: string;
+  }
+
+  // Blame - The version that last changed each line of a version
+  export interface BlameLine {
+    // 1-based line number
+    line: number;
+    content: string;
+    versionId: number;
+    timestamp: string;
+    message: string;
+    author?: string;
+  }
+
+  export interface BlameResult {
+    versionId: number;
+    lines: BlameLine[];
+  }
+
+  // Full-text search - Versions whose content or commit message contain every word and phrase of a query
+  export type SearchField = 'content' | 'message';
+
+  export interface SearchQuery {
+    q: string;
+    fields: SearchField[];
+    limit: number;
+    branch?: string;
+    includeArchived: boolean;
+  }
+
+  export interface SearchMatch {
+    field: SearchField;
+    // Escaped excerpt around the first match, matches wrapped in <mark>
+    snippet: string;
+    occurrences: number;
+  }
+
+  export interface SearchResult {
+    versionId: number;
+    message: string;
+    timestamp: string;
+    branch: string;
+    status: VersionStatus;
+    matches: SearchMatch[];
+  }
+
+  export interface SearchResponse {
+    query: string;
+    total: number;
+    results: SearchResult[];
+  }
+
+  // Audit log - Append-only record of every change made to a document, hash chained so that
+  // editing or removing an entry breaks the chain. The registry keeps one of its own for the document
+  // list and the tokens it mints.
+  export type AuditAction =
+    | 'version.create'
+    | 'version.revert'
+    | 'version.merge'
+    | 'version.archive'
+    | 'version.restore'
+    | 'version.delete'
+    | 'version.publish'
+    | 'version.unpublish'
+    | 'version.submit'
+    | 'version.approve'
+    | 'version.reject'
+    | 'version.preview'
+    | 'tag.create'
+    | 'tag.rename'
+    | 'tag.delete'
+    | 'branch.create'
+    | 'branch.delete'
+    | 'schedule.create'
+    | 'schedule.cancel'
+    | 'webhook.create'
+    | 'webhook.delete'
+    | 'settings.review'
+    | 'settings.content-type'
+    | 'channel.promote'
+    | 'channel.delete'
+    | 'document.compact'
+    | 'document.import'
+    | 'document.create'
+    | 'document.update'
+    | 'document.delete'
+    | 'token.create';
+
+  export interface AuditTarget {
+    type: 'document' | 'version' | 'tag' | 'branch' | 'channel' | 'schedule' | 'webhook' | 'settings' | 'token';
+    id: string;
+  }
+
+  // Where a change came from
+  export interface AuditRequestInfo {
+    method: string;
+    path: string;
+    ip?: string;
+    userAgent?: string;
+    rayId?: string;
+  }
+
+  export interface AuditEntry {
+    id: number;
+    timestamp: string;
+    // Subject of the token that made the change
+    actor: string;
+    role?: string;
+    action: AuditAction;
+    target: AuditTarget;
+    // Summary of the target before and after the change, absent when it did not exist
+    before?: unknown;
+    after?: unknown;
+    // Absent for changes made by a schedule
+    request?: AuditRequestInfo;
+    // Hash of the previous entry, zeros for the first one
+    previousHash: string;
+    // SHA-256 of the entry without its hash
+    hash: string;
+  }
+
+  // The fields of an entry that describe the change itself
+  export type AuditChange = Pick<AuditEntry, 'action' | 'target' | 'before' | 'after'>;
+
+  export interface AuditQuery {
+    actor?: string;
+    actions?: AuditAction[];
+    targetType?: AuditTarget['type'];
+    targetId?: string;
+    from?: string;
+    to?: string;
+    limit: number;
+    // Only entries older than this id, to page through the log newest first
+    before?: number;
+  }
+
+  export interface AuditPage {
+    items: AuditEntry[];
+    // Pass back as ?before= to get the next page, null on the last page
+    nextCursor: number | null;
+    total: number;
+  }
+
+  export interface AuditVerification {
+    valid: boolean;
+    entries: number;
+    // Id of the first entry whose hash does not match
+    brokenAt?: number;
+  }
+
+  // Export and import - The whole history of a document as NDJSON, one record per line: a header,
+  // the versions in id order, the tags, the publish history and an end record with the counts
+  export interface ArchiveMeta {
+    // Head of main when exported
+    currentVersion: number;
+    branches: { [name: string]: Branch };
+    reviewSettings: ReviewSettings;
+    contentType?: ContentType;
+    schema?: JsonSchema;
+    channels?: { [name: string]: Channel };
+  }
+
+  export interface ArchiveCounts {
+    versions: number;
+    tags: number;
+    publishRecords: number;
+  }
+
+  // Diffs are left out of archives, they are computed again on import
+  export type ArchivedVersion = Omit<Version, 'diff'>;
+
+  export type ArchiveRecord =
+    | { type: 'header'; format: string; formatVersion: number; documentId: string; exportedAt: string; meta: ArchiveMeta }
+    | { type: 'version'; version: ArchivedVersion }
+    | { type: 'tag'; tag: Tag }
+    | { type: 'publish'; record: PublishRecord }
+    | { type: 'end'; counts: ArchiveCounts };
+
+  export interface Archive {
+    documentId: string;
+    meta: ArchiveMeta;
+    versions: ArchivedVersion[];
+    tags: Tag[];
+    publishRecords: PublishRecord[];
+  }
+
+  // replace drops the document's history first, merge adds the archive next to it
+  export type ImportMode = 'replace' | 'merge';
+
+  export interface ImportReport {
+    mode: ImportMode;
+    documentId: string;
+    // Document the archive was exported from
+    sourceDocumentId: string;
+    counts: ArchiveCounts;
+    // Archive version id to new id, for the ids that changed
+    idMap: { [id: string]: number };
+    // Branches and tags imported under another name because the document already had one with theirs
+    renamedBranches: { [name: string]: string };
+    renamedTags: { [name: string]: string };
+  }
+
+  // HTML pages - Published content and previews as rendered by the worker
+  // Site wide settings, from the SITE_TITLE, BASE_URL and STYLESHEET_URL bindings
+  export interface SiteConfig {
+    title: string;
+    // Where the "Content Version Management" link points
+    baseUrl: string;
+    // Loaded after the built-in styles, so it can override them
+    stylesheetUrl?: string;
+  }
+
+  export interface PageView {
+    // Document name, used as the heading by the article template
+    name?: string;
+    content: string;
+    // Markdown content is rendered, anything else is shown as preformatted text
+    contentType?: ContentType;
+    message?: string;
+    timestamp?: string;
+    preview?: { versionId: number; expiresAt: string };
+    template?: DocumentTemplate;
+  }
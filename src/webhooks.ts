@@ -0,0 +1,99 @@
+import { BadRequestError } from './errors';
+import { ChangeEventType, CreateWebhookRequest, Webhook, WebhookDelivery, WebhookView } from './types';
+
+export const WEBHOOK_EVENTS: ChangeEventType[] = [
+  'version.created',
+  'version.reverted',
+  'version.deleted',
+  'version.published',
+  'version.unpublished',
+  'tag.created',
+  'tag.updated',
+  'tag.deleted'
+];
+
+// A delivery is attempted at most this many times before it is marked failed
+export const MAX_DELIVERY_ATTEMPTS = 6;
+// Delivery log entries kept per document, the oldest finished deliveries are dropped first
+export const MAX_DELIVERY_LOG = 500;
+
+const FIRST_RETRY_DELAY_MS = 30 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+const encoder = new TextEncoder();
+
+// Wait before the next attempt: 30s, 1m, 2m, 4m, 8m
+export function retryDelay(attempts: number): number {
+  return FIRST_RETRY_DELAY_MS * 2 ** (attempts - 1);
+}
+
+export function toWebhookView(webhook: Webhook): WebhookView {
+  const view: Partial<Webhook> = { ...webhook };
+  delete view.secret;
+  return view as WebhookView;
+}
+
+export function subscribesTo(webhook: Webhook, event: ChangeEventType): boolean {
+  return webhook.events.length === 0 || webhook.events.includes(event);
+}
+
+// Check a subscription request and fill in the defaults
+export function parseWebhookRequest(request: CreateWebhookRequest): Required<CreateWebhookRequest> {
+  let url: URL;
+  try {
+    url = new URL(request.url);
+  } catch {
+    throw new BadRequestError("url must be an absolute URL");
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new BadRequestError("url must use http or https");
+  }
+
+  const events = request.events || [];
+  if (!Array.isArray(events) || events.some(event => !WEBHOOK_EVENTS.includes(event))) {
+    throw new BadRequestError(`events must be a list of: ${WEBHOOK_EVENTS.join(', ')}`);
+  }
+  if (request.secret !== undefined && (typeof request.secret !== 'string' || request.secret.length < 16)) {
+    throw new BadRequestError("secret must be a string of at least 16 characters");
+  }
+
+  return {
+    url: url.toString(),
+    events,
+    // Without a secret of their own, subscribers get a generated one back once, when subscribing
+    secret: request.secret || crypto.randomUUID().replace(/-/g, '')
+  };
+}
+
+// Hex HMAC-SHA256 of "<timestamp>.<body>", so that a replayed body with a new timestamp does not verify
+export async function signPayload(secret: string, timestamp: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// POST a delivery to its subscriber. Any 2xx response counts as delivered.
+export async function sendDelivery(webhook: Webhook, delivery: WebhookDelivery): Promise<{ ok: boolean; status?: number; error?: string }> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = new Date().toISOString();
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': webhook.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${await signPayload(webhook.secret, timestamp, body)}`
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    });
+    return response.ok
+      ? { ok: true, status: response.status }
+      : { ok: false, status: response.status, error: `Subscriber responded with ${response.status}` };
+  } catch (err) {
+    return { ok: false, error: (err as Error).message };
+  }
+}
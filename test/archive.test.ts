@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { ARCHIVE_FORMAT, ARCHIVE_FORMAT_VERSION, importedName, parseArchive } from '../src/archive';
+import { ApiResponse, ImportReport, Version, VersionListItem, VersionPage } from '../src/types';
+import { authHeaders, createContentDO, send } from './helpers';
+
+type ContentObject = ReturnType<typeof createContentDO>['object'];
+
+// Three versions on main, one on a branch, a tag and a publish
+async function createHistory(prefix: string): Promise<ContentObject> {
+  const { object } = createContentDO();
+  for (let i = 1; i <= 3; i++) {
+    await send(object, 'POST', '/content/docs/versions', { body: { content: `${prefix} ${i}`, message: `Edit ${i}` } });
+  }
+  await send(object, 'POST', '/content/docs/branches', { body: { name: 'feature', fromVersion: 2 } });
+  await send(object, 'POST', '/content/docs/versions', { body: { content: `${prefix} feature`, branch: 'feature' } });
+  await send(object, 'POST', '/content/docs/tags', { body: { versionId: 2, name: 'v1' } });
+  expect((await send(object, 'POST', '/content/docs/versions/2/publish')).status).toBe(200);
+  return object;
+}
+
+async function exportArchive(object: ContentObject): Promise<string> {
+  const exported = await send<string>(object, 'GET', '/content/docs/export');
+  expect(exported.status).toBe(200);
+  expect(exported.headers.get('Content-Type')).toBe('application/x-ndjson');
+  return exported.body;
+}
+
+function importArchive(object: ContentObject, archive: string, mode?: string): ReturnType<typeof send<ImportReport & ApiResponse<never>>> {
+  return send(object, 'POST', `/content/docs/import${mode ? `?mode=${mode}` : ''}`, { body: archive });
+}
+
+async function contents(object: ContentObject): Promise<{ [id: number]: string }> {
+  const versions: { id: number }[] = (await send<VersionPage<VersionListItem>>(object, 'GET', '/content/docs/versions')).body.items;
+  const result: { [id: number]: string } = {};
+  for (const { id } of versions) {
+    result[id] = (await send<Version>(object, 'GET', `/content/docs/versions/${id}`)).body.content;
+  }
+  return result;
+}
+
+describe('export', () => {
+  it('writes a header, the versions in id order, tags, publish records and an end record', async () => {
+    const archive = await exportArchive(await createHistory('Source'));
+    const records = archive.trim().split('\n').map(line => JSON.parse(line));
+
+    expect(records.map(record => record.type)).toEqual(['header', 'version', 'version', 'version', 'version', 'tag', 'publish', 'end']);
+    expect(records[0]).toMatchObject({ format: ARCHIVE_FORMAT, formatVersion: ARCHIVE_FORMAT_VERSION, documentId: 'docs' });
+    expect(records[0].meta.branches).toMatchObject({ main: { head: 3 }, feature: { head: 4 } });
+    expect(records.slice(1, 5).map(record => record.version.id)).toEqual([1, 2, 3, 4]);
+    expect(records[4].version).toMatchObject({ content: 'Source feature', branch: 'feature', parents: [2] });
+    expect(records[7]).toEqual({ type: 'end', counts: { versions: 4, tags: 1, publishRecords: 1 } });
+  });
+
+  it('is limited to admins', async () => {
+    const object = await createHistory('Source');
+    expect((await send(object, 'GET', '/content/docs/export', { headers: await authHeaders('editor') })).status).toBe(403);
+  });
+});
+
+describe('import', () => {
+  it('restores an exported history into an empty document', async () => {
+    const source = await createHistory('Source');
+    const { object } = createContentDO();
+
+    const imported = await importArchive(object, await exportArchive(source), 'replace');
+    expect(imported.status).toBe(200);
+    expect(imported.body).toMatchObject({
+      mode: 'replace',
+      sourceDocumentId: 'docs',
+      counts: { versions: 4, tags: 1, publishRecords: 1 },
+      idMap: {},
+      renamedBranches: {},
+      renamedTags: {}
+    });
+
+    expect(await contents(object)).toEqual(await contents(source));
+    expect((await send(object, 'GET', '/content/docs/tags')).body).toMatchObject([{ name: 'v1', versionId: 2 }]);
+    expect((await send(object, 'GET', '/content/docs')).body).toMatchObject({ content: 'Source 2' });
+  });
+
+  it('drops the history of the document when replacing it', async () => {
+    const object = await createHistory('Target');
+    await importArchive(object, await exportArchive(await createHistory('Source')), 'replace');
+    expect(Object.values(await contents(object))).toEqual(['Source 1', 'Source 2', 'Source 3', 'Source feature']);
+  });
+
+  it('adds the archive next to the history when merging, under new ids and names', async () => {
+    const object = await createHistory('Target');
+    const imported = await importArchive(object, await exportArchive(await createHistory('Source')));
+    expect(imported.status).toBe(200);
+    expect(imported.body).toMatchObject({
+      mode: 'merge',
+      idMap: { 1: 5, 2: 6, 3: 7, 4: 8 },
+      renamedBranches: { main: 'imported-main', feature: 'imported-feature' },
+      renamedTags: { v1: 'imported-v1' }
+    });
+
+    const versions = await contents(object);
+    expect(versions).toMatchObject({ 2: 'Target 2', 6: 'Source 2', 8: 'Source feature' });
+    const imported8 = (await send(object, 'GET', '/content/docs/versions/8')).body;
+    expect(imported8).toMatchObject({ parents: [6], branch: 'imported-feature' });
+
+    // The document already had a live version, so the imported one comes in as a draft
+    expect((await send<Version>(object, 'GET', '/content/docs/versions/6')).body.status).toBe('draft');
+    expect((await send(object, 'GET', '/content/docs')).body).toMatchObject({ content: 'Target 2' });
+    expect((await send(object, 'GET', '/content/docs/tags')).body).toEqual(expect.arrayContaining([
+      expect.objectContaining({ name: 'v1', versionId: 2 }),
+      expect.objectContaining({ name: 'imported-v1', versionId: 6 })
+    ]));
+  });
+
+  it('rejects unknown modes', async () => {
+    const source = await createHistory('Source');
+    const imported = await importArchive(createContentDO().object, await exportArchive(source), 'overwrite');
+    expect(imported.status).toBe(400);
+    expect(imported.body.error).toBe('mode must be one of: replace, merge');
+  });
+
+  it('rejects archives that are truncated or inconsistent and leaves the document as it was', async () => {
+    const object = await createHistory('Target');
+    const before = await contents(object);
+    const lines = (await exportArchive(await createHistory('Source'))).trim().split('\n');
+
+    const truncated = await importArchive(object, lines.slice(0, -1).join('\n'), 'replace');
+    expect(truncated.status).toBe(400);
+    expect(truncated.body.error).toBe('The archive has no end record, it may be truncated');
+
+    const withoutVersion = await importArchive(object, [lines[0], ...lines.slice(2)].join('\n'), 'replace');
+    expect(withoutVersion.status).toBe(400);
+
+    const garbled = await importArchive(object, [lines[0], '{not json', ...lines.slice(1)].join('\n'));
+    expect(garbled.body.error).toBe('Line 2 is not valid JSON');
+
+    expect(await contents(object)).toEqual(before);
+  });
+
+  it('rejects archives without a main branch or with more than one published version', async () => {
+    const object = await createHistory('Target');
+    const before = await contents(object);
+    const records = (await exportArchive(await createHistory('Source'))).trim().split('\n').map(line => JSON.parse(line));
+    const write = (changed: object[]): string => changed.map(record => JSON.stringify(record)).join('\n');
+
+    const [header, ...rest] = records;
+    const { main, ...branches } = header.meta.branches;
+    const renamed = { ...header, meta: { ...header.meta, branches: { ...branches, trunk: { ...main, name: 'trunk' } } } };
+    const withoutMain = await importArchive(object, write([renamed, ...rest]), 'replace');
+    expect(withoutMain.status).toBe(400);
+    expect(withoutMain.body.error).toBe('Line 1: meta.branches must have the main branch');
+
+    const twicePublished = records.map(record => (record.version?.id === 3 ? { ...record, version: { ...record.version, status: 'published' } } : record));
+    const published = await importArchive(object, write(twicePublished), 'replace');
+    expect(published.status).toBe(400);
+    expect(published.body.error).toBe('Versions 2, 3 are all marked published, only one can be');
+
+    expect(await contents(object)).toEqual(before);
+    expect((await send(object, 'POST', '/content/docs/versions', { body: { content: 'Still writable' } })).status).toBe(200);
+  });
+});
+
+describe('parseArchive', () => {
+  it('reports records that point to versions missing from the archive', () => {
+    const header = { type: 'header', format: ARCHIVE_FORMAT, formatVersion: 1, documentId: 'docs', meta: {
+      currentVersion: 0, reviewSettings: { requiredApprovals: 0 }, branches: { main: { name: 'main', head: 0 } }
+    } };
+    const version = { id: 2, content: 'x', message: '', timestamp: '2024-01-01T00:00:00.000Z', status: 'draft', branch: 'main', parents: [1] };
+    const archive = [header, { type: 'version', version }, { type: 'end', counts: { versions: 1, tags: 0, publishRecords: 0 } }]
+      .map(record => JSON.stringify(record)).join('\n');
+    expect(() => parseArchive(archive)).toThrow('Version 2 has a parent that is not in the archive');
+  });
+
+  it('rejects archives from a newer format', () => {
+    const header = JSON.stringify({ type: 'header', format: ARCHIVE_FORMAT, formatVersion: ARCHIVE_FORMAT_VERSION + 1 });
+    expect(() => parseArchive(header)).toThrow(`Line 1: format version ${ARCHIVE_FORMAT_VERSION + 1} is not supported`);
+  });
+});
+
+describe('importedName', () => {
+  it('prefixes the name and numbers it until it is free', () => {
+    expect(importedName('main', () => false)).toBe('imported-main');
+    expect(importedName('main', name => ['imported-main', 'imported-main-2'].includes(name))).toBe('imported-main-3');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { GENESIS_HASH } from '../src/audit';
+import { AuditPage, AuditVerification } from '../src/types';
+import { createContentDO, createRegistryDO, send } from './helpers';
+
+describe('audit logs', () => {
+  it('chain the entries of a document, newest first', async () => {
+    const { object } = createContentDO();
+    await send(object, 'POST', '/content/docs/versions', { body: { content: 'Hello' } });
+    await send(object, 'POST', '/content/docs/tags', { body: { versionId: 1, name: 'v1' } });
+
+    const page = await send<AuditPage>(object, 'GET', '/content/docs/audit');
+    expect(page.body.items).toMatchObject([{ id: 2, action: 'tag.create' }, { id: 1, action: 'version.create' }]);
+    expect(page.body.items[0].previousHash).toBe(page.body.items[1].hash);
+    expect(page.body.items[1].previousHash).toBe(GENESIS_HASH);
+    expect((await send<AuditVerification>(object, 'GET', '/content/docs/audit/verify')).body).toEqual({ valid: true, entries: 2 });
+  });
+
+  it('chain the entries of the registry the same way', async () => {
+    const { object } = createRegistryDO();
+    await send(object, 'POST', '/documents', { body: { id: 'docs', name: 'Docs' } });
+    await send(object, 'PATCH', '/documents/docs', { body: { name: 'Handbook' } });
+
+    const page = await send<AuditPage>(object, 'GET', '/audit');
+    expect(page.body.items).toMatchObject([{ id: 2, action: 'document.update' }, { id: 1, action: 'document.create' }]);
+    expect(page.body.items[0].previousHash).toBe(page.body.items[1].hash);
+    expect((await send<AuditVerification>(object, 'GET', '/audit/verify')).body).toEqual({ valid: true, entries: 2 });
+  });
+
+  it('report the first entry that was changed', async () => {
+    const { object, storage } = createContentDO();
+    for (const content of ['One', 'Two', 'Three']) {
+      await send(object, 'POST', '/content/docs/versions', { body: { content } });
+    }
+    const key = `audit:${String(2).padStart(10, '0')}`;
+    await storage.put(key, { ...(await storage.get(key) as object), actor: 'someone-else' });
+
+    const verified = await send<AuditVerification>(object, 'GET', '/content/docs/audit/verify');
+    expect(verified.body).toEqual({ valid: false, entries: 3, brokenAt: 2 });
+  });
+});
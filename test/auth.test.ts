@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { authorize, signToken, verifyToken } from '../src/auth';
+import { AUTH_SECRET, authHeaders, createContentDO, createRegistryDO, send } from './helpers';
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+// Rejections are HttpErrors: check both the status and the message
+async function rejection(promise: Promise<unknown>): Promise<{ status: number; message: string }> {
+  try {
+    await promise;
+  } catch (err) {
+    return { status: (err as { status: number }).status, message: (err as Error).message };
+  }
+  throw new Error('expected a rejection');
+}
+
+describe('verifyToken', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the identity of a token it signed', async () => {
+    const token = await signToken({ sub: 'alice', role: 'editor', name: 'Alice' }, AUTH_SECRET);
+    expect(await verifyToken(token, AUTH_SECRET)).toEqual({ sub: 'alice', role: 'editor', name: 'Alice' });
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    const token = await signToken({ sub: 'alice', role: 'admin' }, 'another-secret');
+    expect(await rejection(verifyToken(token, AUTH_SECRET))).toEqual({ status: 401, message: 'Invalid token signature' });
+  });
+
+  it('rejects tokens whose claims were changed after signing', async () => {
+    const [header, payload, signature] = (await signToken({ sub: 'alice', role: 'viewer' }, AUTH_SECRET)).split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const escalated = `${header}.${encode({ ...claims, role: 'admin' })}.${signature}`;
+    expect(await rejection(verifyToken(escalated, AUTH_SECRET))).toEqual({ status: 401, message: 'Invalid token signature' });
+  });
+
+  it('rejects expired tokens', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const token = await signToken({ sub: 'alice', role: 'admin' }, AUTH_SECRET, 60);
+    vi.setSystemTime(Date.now() + 61 * 1000);
+    expect(await rejection(verifyToken(token, AUTH_SECRET))).toEqual({ status: 401, message: 'Token expired' });
+  });
+
+  it('only accepts HS256', async () => {
+    const [, payload, signature] = (await signToken({ sub: 'alice', role: 'admin' }, AUTH_SECRET)).split('.');
+    for (const alg of ['none', 'HS512', 'RS256']) {
+      const token = `${encode({ alg, typ: 'JWT' })}.${payload}.${signature}`;
+      expect(await rejection(verifyToken(token, AUTH_SECRET))).toEqual({ status: 401, message: 'Unsupported token algorithm' });
+    }
+    // An unsigned token has no signature part at all
+    expect(await rejection(verifyToken(`${encode({ alg: 'none' })}.${payload}.`, AUTH_SECRET))).toEqual({ status: 401, message: 'Malformed token' });
+  });
+
+  it('rejects tokens without a valid role', async () => {
+    const token = await signToken({ sub: 'alice', role: 'owner' as 'admin' }, AUTH_SECRET);
+    expect(await rejection(verifyToken(token, AUTH_SECRET))).toEqual({ status: 401, message: 'Token is missing a subject or a valid role' });
+  });
+
+  it('rejects tokens that are not JWTs', async () => {
+    expect(await rejection(verifyToken('not-a-token', AUTH_SECRET))).toEqual({ status: 401, message: 'Malformed token' });
+    expect(await rejection(verifyToken('a.b.c', AUTH_SECRET))).toEqual({ status: 401, message: 'Malformed token' });
+  });
+});
+
+describe('authorize', () => {
+  it('needs a bearer token and a configured secret', async () => {
+    const request = new Request('https://worker.test/');
+    expect(await rejection(authorize(request, AUTH_SECRET, 'viewer'))).toEqual({ status: 401, message: 'Missing bearer token' });
+    expect(await rejection(authorize(request, undefined, 'viewer'))).toEqual({ status: 500, message: 'AUTH_SECRET is not configured' });
+  });
+});
+
+describe('roles on routes', () => {
+  async function statusAs(role: 'viewer' | 'editor' | 'publisher' | 'admin', method: string, path: string, body?: unknown): Promise<number> {
+    const { object } = createContentDO();
+    await send(object, 'POST', '/content/docs/versions', { body: { content: 'Hello' } });
+    return (await send(object, method, path, { body, headers: await authHeaders(role, 'bob') })).status;
+  }
+
+  it('lets viewers read but not write', async () => {
+    expect(await statusAs('viewer', 'GET', '/content/docs/versions')).toBe(200);
+    expect(await statusAs('viewer', 'POST', '/content/docs/versions', { content: 'x' })).toBe(403);
+    expect(await statusAs('viewer', 'POST', '/content/docs/tags', { versionId: 1, name: 'v1' })).toBe(403);
+  });
+
+  it('lets editors write but not publish', async () => {
+    expect(await statusAs('editor', 'POST', '/content/docs/versions', { content: 'x' })).toBe(200);
+    expect(await statusAs('editor', 'POST', '/content/docs/versions/1/publish')).toBe(403);
+    expect(await statusAs('publisher', 'POST', '/content/docs/versions/1/publish')).toBe(200);
+  });
+
+  it('keeps admin routes to admins', async () => {
+    for (const [method, path] of [['GET', '/content/docs/export'], ['GET', '/content/docs/audit'], ['POST', '/content/docs/compact']]) {
+      expect(await statusAs('publisher', method, path)).toBe(403);
+      expect(await statusAs('admin', method, path)).toBe(200);
+    }
+  });
+
+  it('rejects requests without a token or with a forged one', async () => {
+    const { object } = createContentDO();
+    const forged = await signToken({ sub: 'mallory', role: 'admin' }, 'guessed-secret');
+    expect((await send(object, 'GET', '/content/docs/versions', { headers: {} })).status).toBe(401);
+    expect((await send(object, 'GET', '/content/docs/versions', { headers: { Authorization: `Bearer ${forged}` } })).status).toBe(401);
+  });
+
+  it('only lets admins mint tokens', async () => {
+    const { object } = createRegistryDO();
+    const body = { sub: 'carol', role: 'admin' };
+    expect((await send(object, 'POST', '/auth/tokens', { body, headers: await authHeaders('publisher') })).status).toBe(403);
+
+    const minted = await send<{ token: string; expiresIn: number }>(object, 'POST', '/auth/tokens', { body });
+    expect(minted.status).toBe(200);
+    expect(await verifyToken(minted.body.token, AUTH_SECRET)).toMatchObject({ sub: 'carol', role: 'admin' });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { formatETag, parseIfMatchVersion } from '../src/etag';
+import { authHeaders, createContentDO, send } from './helpers';
+
+async function ifMatch(tag: string): Promise<Record<string, string>> {
+  return { ...(await authHeaders()), 'If-Match': tag };
+}
+
+describe('parseIfMatchVersion', () => {
+  it('reads the version from a full or short entity tag', () => {
+    expect(parseIfMatchVersion(formatETag(3, 17))).toBe(3);
+    expect(parseIfMatchVersion('"3"')).toBe(3);
+    expect(parseIfMatchVersion('W/"3-17"')).toBe(3);
+    expect(parseIfMatchVersion('3')).toBe(3);
+  });
+
+  it('treats a missing header and * as no precondition', () => {
+    expect(parseIfMatchVersion(null)).toBeUndefined();
+    expect(parseIfMatchVersion('*')).toBeUndefined();
+  });
+});
+
+describe('If-Match', () => {
+  async function createVersions(count: number): Promise<ReturnType<typeof createContentDO>['object']> {
+    const { object } = createContentDO();
+    for (let i = 1; i <= count; i++) {
+      await send(object, 'POST', '/content/docs/versions', { body: { content: `Version ${i}` } });
+    }
+    return object;
+  }
+
+  it('tags responses with the head of main and the revision', async () => {
+    const object = await createVersions(2);
+    const response = await send(object, 'GET', '/content/docs/versions');
+    expect(response.headers.get('ETag')).toMatch(/^"2-\d+"$/);
+
+    const notModified = await send(object, 'GET', '/content/docs/versions', {
+      headers: { ...(await authHeaders()), 'If-None-Match': response.headers.get('ETag') as string }
+    });
+    expect(notModified.status).toBe(304);
+  });
+
+  it('accepts a write based on the head and rejects one based on an older version', async () => {
+    const object = await createVersions(2);
+
+    const stale = await send(object, 'POST', '/content/docs/versions', { body: { content: 'Stale' }, headers: await ifMatch('"1"') });
+    expect(stale.status).toBe(409);
+    expect(stale.body).toMatchObject({ success: false, error: 'Version conflict', expectedVersion: 1, currentVersion: 2, head: { id: 2 } });
+
+    const fresh = await send(object, 'POST', '/content/docs/versions', { body: { content: 'Fresh' }, headers: await ifMatch('"2"') });
+    expect(fresh.status).toBe(200);
+    expect(fresh.body).toMatchObject({ id: 3, parents: [2] });
+  });
+
+  it('takes baseVersion from the body when there is no header', async () => {
+    const object = await createVersions(2);
+    const stale = await send(object, 'POST', '/content/docs/versions', { body: { content: 'Stale', baseVersion: 1 } });
+    expect(stale.status).toBe(409);
+  });
+
+  it('keeps checking against the head after an older version is published', async () => {
+    const object = await createVersions(3);
+    const published = await send(object, 'POST', '/content/docs/versions/2/publish', { headers: await ifMatch('"3"') });
+    expect(published.status).toBe(200);
+    expect(published.headers.get('ETag')).toMatch(/^"3-\d+"$/);
+
+    expect((await send(object, 'POST', '/content/docs/versions', { body: { content: 'x' }, headers: await ifMatch('"2"') })).status).toBe(409);
+    expect((await send(object, 'POST', '/content/docs/versions', { body: { content: 'x' }, headers: await ifMatch('"3"') })).status).toBe(200);
+  });
+
+  it('checks publishing and reverting against the head', async () => {
+    const object = await createVersions(2);
+    expect((await send(object, 'POST', '/content/docs/versions/1/publish', { headers: await ifMatch('"1"') })).status).toBe(409);
+    expect((await send(object, 'POST', '/content/docs/revert', { body: { versionId: 1 }, headers: await ifMatch('"1"') })).status).toBe(409);
+
+    const reverted = await send(object, 'POST', '/content/docs/revert', { body: { versionId: 1 }, headers: await ifMatch('"2"') });
+    expect(reverted.status).toBe(200);
+    expect(reverted.body).toMatchObject({ id: 3, content: 'Version 1', status: 'draft' });
+  });
+
+  it('moves the head back to the parent when the head is deleted', async () => {
+    const object = await createVersions(3);
+    const deleted = await send(object, 'DELETE', '/content/docs/versions/3');
+    expect(deleted.headers.get('ETag')).toMatch(/^"2-\d+"$/);
+
+    expect((await send(object, 'POST', '/content/docs/versions', { body: { content: 'x' }, headers: await ifMatch('"3"') })).status).toBe(409);
+    expect((await send(object, 'POST', '/content/docs/versions', { body: { content: 'x' }, headers: await ifMatch('"2"') })).status).toBe(200);
+  });
+
+  it('compares writes on other branches with the head of that branch', async () => {
+    const object = await createVersions(2);
+    await send(object, 'POST', '/content/docs/branches', { body: { name: 'draft', fromVersion: 1 } });
+
+    expect((await send(object, 'POST', '/content/docs/versions', { body: { content: 'x', branch: 'draft', baseVersion: 2 } })).status).toBe(409);
+    const onBranch = await send(object, 'POST', '/content/docs/versions', { body: { content: 'x', branch: 'draft', baseVersion: 1 } });
+    expect(onBranch.status).toBe(200);
+    expect(onBranch.body).toMatchObject({ branch: 'draft', parents: [1] });
+  });
+
+  it('tags responses with the head of the branch named by ?branch= and writes on it', async () => {
+    const object = await createVersions(2);
+    await send(object, 'POST', '/content/docs/branches', { body: { name: 'draft', fromVersion: 1 } });
+
+    const listed = await send(object, 'GET', '/content/docs/versions?branch=draft');
+    const etag = listed.headers.get('ETag') as string;
+    expect(etag).toMatch(/^"1-\d+"$/);
+
+    const written = await send(object, 'POST', '/content/docs/versions?branch=draft', { body: { content: 'x' }, headers: await ifMatch(etag) });
+    expect(written.status).toBe(200);
+    expect(written.body).toMatchObject({ id: 3, branch: 'draft', parents: [1] });
+    expect(written.headers.get('ETag')).toMatch(/^"3-\d+"$/);
+
+    const stale = await send(object, 'POST', '/content/docs/versions?branch=draft', { body: { content: 'y' }, headers: await ifMatch(etag) });
+    expect(stale.status).toBe(409);
+    expect((await send(object, 'GET', '/content/docs/versions')).headers.get('ETag')).toMatch(/^"2-\d+"$/);
+  });
+
+  it('rejects requests naming an unknown branch before changing anything', async () => {
+    const object = await createVersions(1);
+    const written = await send(object, 'POST', '/content/docs/versions?branch=missing', { body: { content: 'x', branch: 'main' } });
+    expect(written.status).toBe(404);
+    expect((await send(object, 'GET', '/content/docs/versions')).headers.get('ETag')).toMatch(/^"1-\d+"$/);
+  });
+});
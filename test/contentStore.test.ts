@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { CompactionReport, Version } from '../src/types';
+import { authHeaders, createContentDO, send } from './helpers';
+
+type ContentDO = ReturnType<typeof createContentDO>;
+
+const PARAGRAPHS = Array.from({ length: 20 }, (_, i) => `Paragraph ${i + 1} of a document long enough for patches to pay off.`);
+
+// Each edit rewrites a single paragraph of the same document
+function edit(n: number): string {
+  return PARAGRAPHS.map((line, i) => (i === n % PARAGRAPHS.length ? `${line} Edited ${n} times.` : line)).join('\n');
+}
+
+async function createVersions(count: number, document: ContentDO = createContentDO()): Promise<ContentDO> {
+  for (let i = 1; i <= count; i++) {
+    const created = await send(document.object, 'POST', '/content/docs/versions', { body: { content: edit(i) } });
+    expect(created.status).toBe(200);
+  }
+  return document;
+}
+
+function contentKey(id: number): string {
+  return `content:${String(id).padStart(10, '0')}`;
+}
+
+describe('delta storage', () => {
+  it('stores versions as patches against their first parent and rebuilds them on read', async () => {
+    const { object, storage } = await createVersions(3);
+
+    expect(await storage.get(contentKey(1))).toMatchObject({ content: edit(1), depth: 0 });
+    const patch = await storage.get(contentKey(3));
+    expect(patch).toMatchObject({ base: 2, depth: 2 });
+    expect(patch).not.toHaveProperty('content');
+
+    const version = await send(object, 'GET', '/content/docs/versions/3');
+    expect(version.body).toMatchObject({ id: 3, content: edit(3), diff: { from: edit(2), to: edit(3) } });
+  });
+
+  it('keeps a full snapshot every ten versions', async () => {
+    const { object, storage } = await createVersions(12);
+
+    const depths = [];
+    for (let id = 1; id <= 12; id++) {
+      depths.push(((await storage.get(contentKey(id))) as { depth: number }).depth);
+    }
+    expect(depths).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 0, 1]);
+    expect(await storage.get(contentKey(11))).toMatchObject({ content: edit(11) });
+
+    for (const id of [9, 10, 12]) {
+      expect((await send<Version>(object, 'GET', `/content/docs/versions/${id}`)).body.content).toBe(edit(id));
+    }
+  });
+
+  it('stores a snapshot when the patch would not be smaller than the content', async () => {
+    const { object, storage } = createContentDO();
+    await send(object, 'POST', '/content/docs/versions', { body: { content: 'a' } });
+    await send(object, 'POST', '/content/docs/versions', { body: { content: 'b' } });
+    expect(await storage.get(contentKey(2))).toMatchObject({ content: 'b', depth: 0 });
+  });
+
+  it('rewrites the patches of the children of a deleted version', async () => {
+    const { object, storage } = await createVersions(4);
+
+    expect((await send(object, 'DELETE', '/content/docs/versions/2')).status).toBe(200);
+    expect(await storage.get(contentKey(2))).toBeUndefined();
+    expect(await storage.get(contentKey(3))).toMatchObject({ base: 1, depth: 1 });
+
+    for (const id of [3, 4]) {
+      const version = await send<Version>(object, 'GET', `/content/docs/versions/${id}`);
+      expect(version.body.content).toBe(edit(id));
+    }
+    expect((await send(object, 'GET', '/content/docs/versions/3')).body).toMatchObject({ parents: [1], diff: { from: edit(1) } });
+  });
+});
+
+describe('compaction', () => {
+  it('converts records written before delta compression and drops orphans', async () => {
+    const document = createContentDO();
+    const { object, storage } = document;
+    await createVersions(3, document);
+    // Full content and diff, the way versions were stored before, and a record without a version
+    for (let id = 1; id <= 3; id++) {
+      const version = (await send<Version>(object, 'GET', `/content/docs/versions/${id}`)).body;
+      await storage.put(contentKey(id), { content: version.content, diff: version.diff });
+    }
+    await storage.put(contentKey(99), { content: 'left behind' });
+
+    const compacted = await send<CompactionReport>(object, 'POST', '/content/docs/compact');
+    expect(compacted.status).toBe(200);
+    expect(compacted.body).toMatchObject({ versions: 3, snapshots: 1, deltas: 2, orphansRemoved: 1 });
+    expect(compacted.body.bytesAfter).toBeLessThan(compacted.body.bytesBefore);
+
+    expect(await storage.get(contentKey(99))).toBeUndefined();
+    expect(await storage.get(contentKey(3))).toMatchObject({ base: 2, depth: 2 });
+    for (let id = 1; id <= 3; id++) {
+      expect((await send<Version>(object, 'GET', `/content/docs/versions/${id}`)).body.content).toBe(edit(id));
+    }
+  });
+
+  it('leaves compacted storage as it is', async () => {
+    const { object, storage } = await createVersions(3);
+    const before = await storage.get(contentKey(3));
+
+    const compacted = await send(object, 'POST', '/content/docs/compact');
+    expect(compacted.body).toMatchObject({ versions: 3, snapshots: 1, deltas: 2, orphansRemoved: 0 });
+    expect(await storage.get(contentKey(3))).toEqual(before);
+  });
+
+  it('is limited to admins', async () => {
+    const { object } = await createVersions(1);
+    const compacted = await send(object, 'POST', '/content/docs/compact', { headers: await authHeaders('editor') });
+    expect(compacted.status).toBe(403);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { deepEqual, diffJson, validateSchema } from '../src/contentTypes';
+import { JsonSchema } from '../src/types';
+
+describe('validateSchema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    required: ['title', 'toString'],
+    properties: { title: { type: 'string' } },
+    additionalProperties: false
+  };
+
+  it('does not count inherited properties as present', () => {
+    expect(validateSchema({ title: 'Hello' }, schema)).toEqual([{ path: '/toString', message: 'is required' }]);
+  });
+
+  it('does not take inherited members of properties for property schemas', () => {
+    const issues = validateSchema({ title: 'Hello', toString: 'x', constructor: 'x', hasOwnProperty: 'x' }, schema);
+    expect(issues).toEqual([
+      { path: '/toString', message: 'is not allowed' },
+      { path: '/constructor', message: 'is not allowed' },
+      { path: '/hasOwnProperty', message: 'is not allowed' }
+    ]);
+  });
+
+  it('reports each field that does not match, by JSON Pointer', () => {
+    const nested: JsonSchema = { type: 'object', properties: { tags: { type: 'array', items: { type: 'string', minLength: 2 } } } };
+    expect(validateSchema({ tags: ['ok', 'x', 3] }, nested)).toEqual([
+      { path: '/tags/1', message: 'must be at least 2 characters long' },
+      { path: '/tags/2', message: 'must be string, got integer' }
+    ]);
+  });
+});
+
+describe('deepEqual', () => {
+  it('compares own keys only', () => {
+    expect(deepEqual({ a: 1 }, { a: 1 })).toBe(true);
+    expect(deepEqual({ toString: 1 }, { valueOf: 1 })).toBe(false);
+  });
+});
+
+describe('diffJson', () => {
+  it('reports keys named like inherited members as added and removed', () => {
+    expect(diffJson({ toString: 'a' }, {})).toEqual([{ type: 'removed', path: '/toString', from: 'a' }]);
+    expect(diffJson({}, { constructor: 'b' })).toEqual([{ type: 'added', path: '/constructor', to: 'b' }]);
+  });
+
+  it('compares objects key by key and arrays index by index', () => {
+    expect(diffJson({ a: 1, list: [1, 2] }, { a: 2, list: [1] })).toEqual([
+      { type: 'changed', path: '/a', from: 1, to: 2 },
+      { type: 'removed', path: '/list/1', from: 2 }
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { calculateInlineDiff, renderInlineDiffHtml } from '../src/diff';
+import { InlineDiff } from '../src/types';
+import { createContentDO, send } from './helpers';
+
+type ContentObject = ReturnType<typeof createContentDO>['object'];
+
+async function createVersions(contents: string[]): Promise<ContentObject> {
+  const { object } = createContentDO();
+  for (const content of contents) {
+    await send(object, 'POST', '/content/docs/versions', { body: { content } });
+  }
+  return object;
+}
+
+describe('calculateInlineDiff', () => {
+  it('splits the change from the old to the new content into spans', () => {
+    expect(calculateInlineDiff('the quick fox', 'the quick brown fox', 'words')).toEqual([
+      { type: 'equal', value: 'the quick ' },
+      { type: 'insert', value: 'brown ' },
+      { type: 'equal', value: 'fox' }
+    ]);
+  });
+
+  it('escapes the content when rendering HTML', () => {
+    expect(renderInlineDiffHtml([{ type: 'insert', value: '<b>' }, { type: 'delete', value: '"&' }])).toBe('<ins>&lt;b&gt;</ins><del>&quot;&amp;</del>');
+  });
+});
+
+describe('inline diffs of versions', () => {
+  it('shows what a version added to its parent', async () => {
+    const object = await createVersions(['the quick fox', 'the quick brown fox']);
+
+    const diff = await send<InlineDiff>(object, 'GET', '/content/docs/versions/2/diff?mode=words');
+    expect(diff.body).toMatchObject({ fromVersion: 1, toVersion: 2, mode: 'words' });
+    expect(diff.body.changes).toContainEqual({ type: 'insert', value: 'brown ' });
+
+    const html = await send<string>(object, 'GET', '/content/docs/versions/2/diff?mode=words&format=html');
+    expect(html.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+    expect(html.body).toBe('the quick <ins>brown </ins>fox');
+  });
+
+  it('shows all of a first version as inserted', async () => {
+    const object = await createVersions(['the quick fox']);
+    const diff = await send<InlineDiff>(object, 'GET', '/content/docs/versions/1/diff?mode=words');
+    expect(diff.status).toBe(200);
+    expect(diff.body).toMatchObject({ fromVersion: 0, toVersion: 1, changes: [{ type: 'insert', value: 'the quick fox' }] });
+  });
+
+  it('diffs against the parent on the branch, not the previous id', async () => {
+    const object = await createVersions(['the quick fox', 'the quick brown fox']);
+    await send(object, 'POST', '/content/docs/branches', { body: { name: 'draft', fromVersion: 1 } });
+    await send(object, 'POST', '/content/docs/versions', { body: { content: 'the slow fox', branch: 'draft' } });
+
+    const html = await send<string>(object, 'GET', '/content/docs/versions/3/diff?mode=words&format=html');
+    expect(html.body).toBe('the <del>quick</del><ins>slow</ins> fox');
+  });
+
+  it('diffs from the version to compare with when there is one', async () => {
+    const object = await createVersions(['the fox', 'the quick fox', 'the quick brown fox']);
+    const diff = await send<InlineDiff>(object, 'GET', '/content/docs/versions/3/diff?mode=words&compare=1');
+    expect(diff.body).toMatchObject({ fromVersion: 1, toVersion: 3 });
+    expect(renderInlineDiffHtml(diff.body.changes)).toBe('the <ins>quick brown </ins>fox');
+
+    expect((await send(object, 'GET', '/content/docs/versions/3/diff?mode=words&compare=9')).status).toBe(404);
+  });
+
+  it('rejects unknown modes', async () => {
+    const object = await createVersions(['the fox']);
+    expect((await send(object, 'GET', '/content/docs/versions/1/diff?mode=paragraphs')).status).toBe(400);
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RegistryDO } from '../src/registryDO';
+import { AuditPage, DocumentRecord } from '../src/types';
+import { createWorker, send } from './helpers';
+
+describe('documents', () => {
+  // Deleting a document purges its pages from the edge cache
+  beforeEach(() => {
+    vi.stubGlobal('caches', { default: { match: async () => undefined, put: async () => {}, delete: async () => true } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('registers a document when its first version is written', async () => {
+    const worker = createWorker();
+    await send(worker, 'POST', '/content/docs/versions', { body: { content: 'Hello' } });
+    expect((await send<DocumentRecord[]>(worker, 'GET', '/documents')).body).toMatchObject([{ id: 'docs' }]);
+  });
+
+  it('removes the registry record when the history is deleted through /content', async () => {
+    const worker = createWorker();
+    await send(worker, 'POST', '/content/docs/versions', { body: { content: 'Hello' } });
+    await send(worker, 'POST', '/content/other/versions', { body: { content: 'Other' } });
+
+    expect((await send(worker, 'DELETE', '/content/docs')).status).toBe(200);
+
+    expect((await send<DocumentRecord[]>(worker, 'GET', '/documents')).body).toMatchObject([{ id: 'other' }]);
+    expect((await send(worker, 'GET', '/documents/docs')).status).toBe(404);
+    expect((await send(worker, 'GET', '/content/docs/versions/1')).status).toBe(404);
+    const audit = await send<AuditPage>(worker, 'GET', '/audit?action=document.delete');
+    expect(audit.body.items).toMatchObject([{ action: 'document.delete', target: { id: 'docs' } }]);
+  });
+
+  it('removes the history when the registry record is deleted', async () => {
+    const worker = createWorker();
+    await send(worker, 'POST', '/content/docs/versions', { body: { content: 'Hello' } });
+
+    expect((await send(worker, 'DELETE', '/documents/docs')).status).toBe(200);
+
+    expect((await send<DocumentRecord[]>(worker, 'GET', '/documents')).body).toEqual([]);
+    expect((await send(worker, 'GET', '/content/docs/versions/1')).status).toBe(404);
+  });
+
+  it('renders pages with the registry name and template without reading the registry', async () => {
+    const worker = createWorker();
+    await send(worker, 'POST', '/content/docs/versions', { body: { content: 'Hello' } });
+    await send(worker, 'POST', '/content/docs/versions/1/publish');
+    await send(worker, 'PATCH', '/documents/docs', { body: { name: 'The <Handbook>', template: 'article' } });
+
+    const registryFetch = vi.spyOn(RegistryDO.prototype, 'fetch');
+    const page = await send<string>(worker, 'GET', '/view/docs');
+    expect(page.status).toBe(200);
+    expect(page.body).toContain('<h1>The &lt;Handbook&gt;</h1>');
+    expect(registryFetch).not.toHaveBeenCalled();
+    registryFetch.mockRestore();
+
+    await send(worker, 'PATCH', '/documents/docs', { body: { name: 'Guide', template: null } });
+    const renamed = await send<string>(worker, 'GET', '/view/docs');
+    expect(renamed.body).not.toContain('<h1>Guide</h1>');
+    expect((await send(worker, 'GET', '/content/docs/published')).body).toMatchObject({ page: { name: 'Guide' } });
+  });
+
+  it('copies the name of a document created in the registry before its first version', async () => {
+    const worker = createWorker();
+    await send(worker, 'POST', '/documents', { body: { id: 'docs', name: 'Handbook' } });
+    await send(worker, 'POST', '/content/docs/versions', { body: { content: 'Hello' } });
+    await send(worker, 'POST', '/content/docs/versions/1/publish');
+    expect((await send(worker, 'GET', '/content/docs/published')).body).toMatchObject({ page: { name: 'Handbook' } });
+  });
+});
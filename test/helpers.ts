@@ -0,0 +1,170 @@
+import { signToken, Role } from '../src/auth';
+import { ContentDO } from '../src/contentDO';
+import { RegistryDO } from '../src/registryDO';
+import worker from '../src/index';
+
+export const AUTH_SECRET = 'test-secret';
+
+interface ListOptions {
+  prefix?: string;
+  start?: string;
+  end?: string;
+  limit?: number;
+  reverse?: boolean;
+}
+
+// In-memory Durable Object storage with the calls the objects make. Values are cloned on the way in
+// and out, like the real storage serializes them.
+class MemoryStorage {
+  private data = new Map<string, unknown>();
+  private alarm: number | null = null;
+
+  async get(key: string | string[]): Promise<unknown> {
+    if (Array.isArray(key)) {
+      return new Map(key.filter(k => this.data.has(k)).map(k => [k, structuredClone(this.data.get(k))]));
+    }
+    return structuredClone(this.data.get(key));
+  }
+
+  async put(key: string | Record<string, unknown>, value?: unknown): Promise<void> {
+    const entries = typeof key === 'string' ? [[key, value] as const] : Object.entries(key);
+    for (const [k, v] of entries) {
+      this.data.set(k, structuredClone(v));
+    }
+  }
+
+  async delete(key: string | string[]): Promise<boolean | number> {
+    if (Array.isArray(key)) {
+      return key.filter(k => this.data.delete(k)).length;
+    }
+    return this.data.delete(key);
+  }
+
+  async deleteAll(): Promise<void> {
+    this.data.clear();
+  }
+
+  async list(options: ListOptions = {}): Promise<Map<string, unknown>> {
+    let keys = [...this.data.keys()]
+      .filter(k => (!options.prefix || k.startsWith(options.prefix))
+        && (!options.start || k >= options.start)
+        && (!options.end || k < options.end))
+      .sort();
+    if (options.reverse) {
+      keys.reverse();
+    }
+    if (options.limit) {
+      keys = keys.slice(0, options.limit);
+    }
+    return new Map(keys.map(k => [k, structuredClone(this.data.get(k))]));
+  }
+
+  async getAlarm(): Promise<number | null> {
+    return this.alarm;
+  }
+
+  async setAlarm(time: number | Date): Promise<void> {
+    this.alarm = typeof time === 'number' ? time : time.getTime();
+  }
+
+  async deleteAlarm(): Promise<void> {
+    this.alarm = null;
+  }
+
+  keys(): string[] {
+    return [...this.data.keys()];
+  }
+}
+
+export interface TestState {
+  storage: MemoryStorage;
+  state: DurableObjectState;
+}
+
+export function createState(): TestState {
+  const storage = new MemoryStorage();
+  const sockets: WebSocket[] = [];
+  const state = {
+    storage,
+    blockConcurrencyWhile: <T>(callback: () => Promise<T>): Promise<T> => callback(),
+    acceptWebSocket: (socket: WebSocket): void => {
+      sockets.push(socket);
+    },
+    getWebSockets: (): WebSocket[] => sockets,
+    waitUntil: (): void => {}
+  };
+  return { storage, state: state as unknown as DurableObjectState };
+}
+
+export function createContentDO(): { object: ContentDO; storage: MemoryStorage } {
+  const { state, storage } = createState();
+  return { object: new ContentDO(state, { AUTH_SECRET } as Env), storage };
+}
+
+export function createRegistryDO(): { object: RegistryDO; storage: MemoryStorage } {
+  const { state, storage } = createState();
+  return { object: new RegistryDO(state, { AUTH_SECRET } as Env), storage };
+}
+
+type FetchHandler = { fetch(request: Request): Promise<Response> };
+
+// Durable Object namespace that creates an object per name on first use. Stubs take the URL and
+// init the worker passes, like the real ones.
+function createNamespace(create: () => { object: FetchHandler }): { idFromName(name: string): string; get(id: string): unknown } {
+  const objects = new Map<string, FetchHandler>();
+  return {
+    idFromName: (name: string): string => name,
+    get: (id: string): unknown => ({
+      fetch: (input: string, init?: RequestInit): Promise<Response> => {
+        if (!objects.has(id)) {
+          objects.set(id, create().object);
+        }
+        // Forwarded request bodies are streams, which Node only sends with duplex set
+        return (objects.get(id) as FetchHandler).fetch(new Request(input, { ...init, duplex: 'half' } as RequestInit));
+      }
+    })
+  };
+}
+
+// The worker in front of fresh content and registry objects. The edge cache is off unless a test
+// stubs `caches` and passes a TTL.
+export function createWorker(cacheTtl: string = '0'): FetchHandler {
+  const env = {
+    CONTENT: createNamespace(createContentDO),
+    REGISTRY: createNamespace(createRegistryDO),
+    AUTH_SECRET,
+    CACHE_TTL: cacheTtl
+  };
+  const ctx = { waitUntil: (): void => {}, passThroughOnException: (): void => {} };
+  return {
+    fetch: (request: Request): Promise<Response> =>
+      worker.fetch(request, env as unknown as Parameters<typeof worker.fetch>[1], ctx as unknown as ExecutionContext)
+  };
+}
+
+export async function authHeaders(role: Role = 'admin', sub: string = 'alice'): Promise<Record<string, string>> {
+  return { Authorization: `Bearer ${await signToken({ sub, role }, AUTH_SECRET)}` };
+}
+
+// Send a request to a Durable Object and read its JSON body, as the type the caller expects
+export async function send<T = unknown>(
+  object: { fetch(request: Request): Promise<Response> },
+  method: string,
+  path: string,
+  options: { body?: unknown; headers?: Record<string, string> } = {}
+): Promise<{ status: number; headers: Headers; body: T }> {
+  const body = options.body === undefined || typeof options.body === 'string' ? options.body : JSON.stringify(options.body);
+  const response = await object.fetch(new Request(`https://worker.test${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...(options.headers || (await authHeaders())) },
+    body: body as string | undefined
+  }));
+  const text = await response.text();
+  let parsed: unknown = text;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // Not JSON: NDJSON exports and HTML stay text
+  }
+  return { status: response.status, headers: response.headers, body: parsed as T };
+}
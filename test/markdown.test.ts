@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { renderMarkdown, safeUrl } from '../src/markdown';
+
+describe('renderMarkdown', () => {
+  it('renders blocks and inline markup', () => {
+    expect(renderMarkdown('# Title\n\nSome **bold** and _em_ text with `code`.\n\n- one\n- two')).toBe([
+      '<h1>Title</h1>',
+      '<p>Some <strong>bold</strong> and <em>em</em> text with <code>code</code>.</p>',
+      '<ul>\n<li>one</li>\n<li>two</li>\n</ul>'
+    ].join('\n'));
+  });
+
+  it('escapes raw HTML in text, code and headings', () => {
+    expect(renderMarkdown('<script>alert(1)</script>')).toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>');
+    expect(renderMarkdown('## <img src=x onerror=alert(1)>')).toBe('<h2>&lt;img src=x onerror=alert(1)&gt;</h2>');
+    expect(renderMarkdown('`<b>`')).toBe('<p><code>&lt;b&gt;</code></p>');
+    expect(renderMarkdown('```html\n<b>&</b>\n```')).toBe('<pre><code class="language-html">&lt;b&gt;&amp;&lt;/b&gt;</code></pre>');
+  });
+
+  it('drops links and images with unsafe schemes and keeps their text', () => {
+    expect(renderMarkdown('[click](javascript:alert(1))')).not.toContain('href');
+    expect(renderMarkdown('[click](javascript:alert)')).toBe('<p>click</p>');
+    expect(renderMarkdown('[click](JavaScript:alert)')).toBe('<p>click</p>');
+    expect(renderMarkdown('![pic](data:text/html,x)')).toBe('<p>pic</p>');
+    expect(renderMarkdown('[ok](https://example.com/a) [mail](mailto:a@example.com) [page](/docs)')).toBe(
+      '<p><a href="https://example.com/a">ok</a> <a href="mailto:a@example.com">mail</a> <a href="/docs">page</a></p>'
+    );
+  });
+
+  it('quotes attribute values so they cannot break out of the attribute', () => {
+    expect(renderMarkdown('[x](https://example.com/"onmouseover="alert)')).toBe(
+      '<p><a href="https://example.com/&quot;onmouseover=&quot;alert">x</a></p>'
+    );
+    expect(renderMarkdown('![a"b\'c](/img.png)')).toBe('<p><img src="/img.png" alt="a&quot;b&#39;c"></p>');
+  });
+
+  it('renders an image inside a link', () => {
+    expect(renderMarkdown('[![Logo](/logo.png)](https://example.com)')).toBe(
+      '<p><a href="https://example.com"><img src="/logo.png" alt="Logo"></a></p>'
+    );
+    expect(renderMarkdown('See [![a](/a.png) and text](/page).')).toBe(
+      '<p>See <a href="/page"><img src="/a.png" alt="a"> and text</a>.</p>'
+    );
+  });
+
+  it('leaves snake_case names and escaped characters alone', () => {
+    expect(renderMarkdown('call some_function_name and \\*stars\\*')).toBe('<p>call some_function_name and *stars*</p>');
+  });
+});
+
+describe('safeUrl', () => {
+  it('rejects URLs with whitespace or control characters browsers would drop', () => {
+    expect(safeUrl('java\tscript:alert(1)')).toBeNull();
+    expect(safeUrl('https://example.com')).toBe('https://example.com');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { mergeThreeWay } from '../src/diff';
+import { Branch, MergeResult } from '../src/types';
+import { createContentDO, send } from './helpers';
+
+type ContentObject = ReturnType<typeof createContentDO>['object'];
+
+const BASE = 'Title\nIntro\nBody\nOutro';
+
+async function createVersion(object: ContentObject, content: string, branch?: string): Promise<void> {
+  const created = await send(object, 'POST', '/content/docs/versions', { body: { content, branch } });
+  expect(created.status).toBe(200);
+}
+
+// main and feature both start from the same first version
+async function splitDocument(): Promise<ContentObject> {
+  const { object } = createContentDO();
+  await createVersion(object, BASE);
+  await send(object, 'POST', '/content/docs/branches', { body: { name: 'feature', fromVersion: 1 } });
+  return object;
+}
+
+async function heads(object: ContentObject): Promise<{ [name: string]: number }> {
+  const branches = (await send<Branch[]>(object, 'GET', '/content/docs/branches')).body;
+  return Object.fromEntries(branches.map(branch => [branch.name, branch.head]));
+}
+
+describe('mergeThreeWay', () => {
+  it('takes changes made on one side only', () => {
+    const merged = mergeThreeWay(BASE, 'Title\nIntro\nBody\nNew outro', 'New title\nIntro\nBody\nOutro', { ours: 'main', theirs: 'feature' });
+    expect(merged).toEqual({ content: 'New title\nIntro\nBody\nNew outro', conflicts: [] });
+  });
+
+  it('writes overlapping changes as conflicts', () => {
+    const merged = mergeThreeWay(BASE, 'Title\nOurs\nBody\nOutro', 'Title\nTheirs\nBody\nOutro', { ours: 'main', theirs: 'feature' });
+    expect(merged.content).toBe('Title\n<<<<<<< main\nOurs\n=======\nTheirs\n>>>>>>> feature\nBody\nOutro');
+    expect(merged.conflicts).toEqual([{ line: 2, base: ['Intro'], ours: ['Ours'], theirs: ['Theirs'] }]);
+  });
+});
+
+describe('branch merges', () => {
+  it('fast-forwards a target without changes of its own', async () => {
+    const object = await splitDocument();
+    await createVersion(object, `${BASE}\nMore`, 'feature');
+
+    const merged = await send(object, 'POST', '/content/docs/merge', { body: { source: 'feature' } });
+    expect(merged.status).toBe(200);
+    expect(merged.body).toMatchObject({ status: 'fast-forward', source: 'feature', target: 'main', baseVersion: 1 });
+    expect(await heads(object)).toMatchObject({ main: 2, feature: 2 });
+
+    const again = await send(object, 'POST', '/content/docs/merge', { body: { source: 'feature' } });
+    expect(again.body).toMatchObject({ status: 'up-to-date' });
+  });
+
+  it('commits a clean three-way merge as a version with both heads as parents', async () => {
+    const object = await splitDocument();
+    await createVersion(object, 'Title\nIntro\nBody\nNew outro');
+    await createVersion(object, 'New title\nIntro\nBody\nOutro', 'feature');
+
+    const merged = await send(object, 'POST', '/content/docs/merge', { body: { source: 'feature' } });
+    expect(merged.status).toBe(200);
+    expect(merged.body).toMatchObject({
+      status: 'merged',
+      baseVersion: 1,
+      content: 'New title\nIntro\nBody\nNew outro',
+      conflicts: [],
+      version: { id: 4, parents: [2, 3], branch: 'main', status: 'draft', message: "Merge branch 'feature' into main" }
+    });
+    expect(await heads(object)).toMatchObject({ main: 4, feature: 3 });
+  });
+
+  it('previews a merge without committing it', async () => {
+    const object = await splitDocument();
+    await createVersion(object, 'Title\nIntro\nBody\nNew outro');
+    await createVersion(object, 'New title\nIntro\nBody\nOutro', 'feature');
+
+    const preview = await send<MergeResult>(object, 'POST', '/content/docs/merge', { body: { source: 'feature', commit: false } });
+    expect(preview.body).toMatchObject({ status: 'clean', content: 'New title\nIntro\nBody\nNew outro' });
+    expect(preview.body.version).toBeUndefined();
+    expect(await heads(object)).toMatchObject({ main: 2, feature: 3 });
+  });
+
+  it('reports conflicts with a 409 and commits the content the client resolved them with', async () => {
+    const object = await splitDocument();
+    await createVersion(object, 'Title\nOurs\nBody\nOutro');
+    await createVersion(object, 'Title\nTheirs\nBody\nOutro', 'feature');
+
+    const conflict = await send<MergeResult>(object, 'POST', '/content/docs/merge', { body: { source: 'feature' } });
+    expect(conflict.status).toBe(409);
+    expect(conflict.body).toMatchObject({ status: 'conflict', conflicts: [{ line: 2, ours: ['Ours'], theirs: ['Theirs'] }] });
+    expect(conflict.body.content).toContain('<<<<<<< main');
+    expect(await heads(object)).toMatchObject({ main: 2 });
+
+    const resolved = await send(object, 'POST', '/content/docs/merge', {
+      body: { source: 'feature', content: 'Title\nBoth\nBody\nOutro', message: 'Resolve intro' }
+    });
+    expect(resolved.status).toBe(200);
+    expect(resolved.body).toMatchObject({ status: 'merged', version: { id: 4, parents: [2, 3], content: 'Title\nBoth\nBody\nOutro', message: 'Resolve intro' } });
+  });
+
+  it('merges into a branch other than main', async () => {
+    const object = await splitDocument();
+    await createVersion(object, `${BASE}\nFrom main`);
+
+    const merged = await send(object, 'POST', '/content/docs/merge', { body: { source: 'main', target: 'feature' } });
+    expect(merged.body).toMatchObject({ status: 'fast-forward', target: 'feature' });
+    expect(await heads(object)).toMatchObject({ main: 2, feature: 2 });
+  });
+
+  it('rejects merges from unknown branches', async () => {
+    const object = await splitDocument();
+    const merged = await send(object, 'POST', '/content/docs/merge', { body: { source: 'missing' } });
+    expect(merged.status).toBe(404);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { applyJsonPatch, applyMergePatch } from '../src/patches';
+
+describe('applyJsonPatch', () => {
+  it('applies operations in order', () => {
+    const patched = applyJsonPatch({ title: 'Old', tags: ['a'] }, [
+      { op: 'replace', path: '/title', value: 'New' },
+      { op: 'add', path: '/tags/-', value: 'b' },
+      { op: 'remove', path: '/tags/0' }
+    ]);
+    expect(patched).toEqual({ title: 'New', tags: ['b'] });
+  });
+
+  it('does not find inherited members at a path', () => {
+    expect(() => applyJsonPatch({}, [{ op: 'remove', path: '/toString' }])).toThrow('path /toString does not exist');
+    expect(() => applyJsonPatch({}, [{ op: 'replace', path: '/constructor', value: 1 }])).toThrow('path /constructor does not exist');
+    expect(() => applyJsonPatch({}, [{ op: 'add', path: '/constructor/name', value: 1 }])).toThrow('path /constructor/name does not exist');
+  });
+});
+
+describe('applyMergePatch', () => {
+  it('merges objects key by key and removes keys set to null', () => {
+    expect(applyMergePatch({ a: 1, b: { c: 2, d: 3 } }, { a: null, b: { c: 4 } })).toEqual({ b: { c: 4, d: 3 } });
+  });
+
+  it('does not merge into inherited members', () => {
+    expect(applyMergePatch({}, { toString: { a: 1 } })).toEqual({ toString: { a: 1 } });
+  });
+});
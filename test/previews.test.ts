@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PreviewLink } from '../src/types';
+import { createWorker, send } from './helpers';
+
+type Worker = ReturnType<typeof createWorker>;
+
+async function createPreview(versions: string[], versionId: number, expiresIn?: number): Promise<{ worker: Worker; url: URL }> {
+  const worker = createWorker();
+  for (const content of versions) {
+    expect((await send(worker, 'POST', '/content/docs/versions', { body: { content } })).status).toBe(200);
+  }
+  const link = await send<PreviewLink>(worker, 'POST', '/content/docs/previews', { body: { versionId, expiresIn } });
+  expect(link.status).toBe(201);
+  return { worker, url: new URL(link.body.url) };
+}
+
+// Preview links are opened without a token
+function open(worker: Worker, url: URL): ReturnType<typeof send<string>> {
+  return send<string>(worker, 'GET', `${url.pathname}${url.search}`, { headers: {} });
+}
+
+describe('preview links', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('render the version they were signed for, kept out of caches and search engines', async () => {
+    const { worker, url } = await createPreview(['Draft one', 'Draft two'], 1);
+    const preview = await open(worker, url);
+    expect(preview.status).toBe(200);
+    expect(preview.body).toContain('Draft one');
+    expect(preview.body).not.toContain('Draft two');
+    expect(preview.headers.get('Cache-Control')).toBe('private, no-store');
+    expect(preview.headers.get('X-Robots-Tag')).toBe('noindex, nofollow');
+  });
+
+  it('are rejected when the signature or what it covers was changed', async () => {
+    const { worker, url } = await createPreview(['Draft one', 'Draft two'], 1);
+    const signature = url.searchParams.get('signature') as string;
+    const expires = Number(url.searchParams.get('expires'));
+
+    const tampered = new URL(url);
+    tampered.searchParams.set('signature', `${signature.slice(0, -2)}${signature.endsWith('AA') ? 'BB' : 'AA'}`);
+    const otherVersion = new URL(url);
+    otherVersion.pathname = '/preview/docs/2';
+    const extended = new URL(url);
+    extended.searchParams.set('expires', String(expires + 3600));
+    const otherDocument = new URL(url);
+    otherDocument.pathname = '/preview/other/1';
+
+    for (const changed of [tampered, otherVersion, extended, otherDocument]) {
+      const preview = await open(worker, changed);
+      expect(preview.status).toBe(403);
+      expect(preview.body).toContain('Invalid preview link');
+      expect(preview.body).not.toContain('Draft');
+    }
+  });
+
+  it('are rejected once they expire', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { worker, url } = await createPreview(['Draft one'], 1, 60);
+    expect((await open(worker, url)).status).toBe(200);
+
+    vi.setSystemTime(Date.now() + 61 * 1000);
+    const expired = await open(worker, url);
+    expect(expired.status).toBe(403);
+    expect(expired.body).toContain('Preview link expired');
+  });
+
+  it('show that the version is gone once it was deleted', async () => {
+    const { worker, url } = await createPreview(['Draft one', 'Draft two'], 2);
+    expect((await send(worker, 'DELETE', '/content/docs/versions/2')).status).toBe(200);
+
+    const preview = await open(worker, url);
+    expect(preview.status).toBe(404);
+    expect(preview.body).toContain('The previewed version no longer exists');
+  });
+
+  it('need an expiry and a signature', async () => {
+    const { worker, url } = await createPreview(['Draft one'], 1);
+    const unsigned = new URL(url);
+    unsigned.searchParams.delete('signature');
+    const withoutExpiry = new URL(url);
+    withoutExpiry.searchParams.delete('expires');
+
+    expect((await open(worker, unsigned)).status).toBe(403);
+    expect((await open(worker, withoutExpiry)).status).toBe(403);
+  });
+});
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MAX_DELIVERY_ATTEMPTS, retryDelay, signPayload } from '../src/webhooks';
+import { WebhookDelivery, WebhookView } from '../src/types';
+import { authHeaders, createContentDO, send } from './helpers';
+
+const SECRET = 'a-webhook-secret-of-some-length';
+const HOOK_URL = 'https://receiver.test/hook';
+
+interface ReceivedDelivery {
+  url: string;
+  headers: Headers;
+  body: string;
+}
+
+// Stands in for the subscriber: records every delivery and answers with the next status in line,
+// the last one once the list runs out
+function stubReceiver(statuses: number[]): ReceivedDelivery[] {
+  const received: ReceivedDelivery[] = [];
+  vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+    received.push({ url, headers: new Headers(init.headers), body: String(init.body) });
+    const status = statuses[Math.min(received.length, statuses.length) - 1];
+    return new Response(null, { status });
+  });
+  return received;
+}
+
+async function hexHmac(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+describe('signPayload', () => {
+  it('signs the timestamp and the body together', async () => {
+    const body = JSON.stringify({ event: 'version.created' });
+    const signature = await signPayload(SECRET, '2024-01-01T00:00:00.000Z', body);
+    expect(signature).toBe(await hexHmac(SECRET, `2024-01-01T00:00:00.000Z.${body}`));
+    expect(await signPayload(SECRET, '2024-01-01T00:00:01.000Z', body)).not.toBe(signature);
+    expect(await signPayload('another-secret-value', '2024-01-01T00:00:00.000Z', body)).not.toBe(signature);
+  });
+});
+
+describe('retryDelay', () => {
+  it('starts at 30 seconds and doubles with every attempt', () => {
+    expect([1, 2, 3, 4, 5].map(retryDelay)).toEqual([30, 60, 120, 240, 480].map(seconds => seconds * 1000));
+  });
+});
+
+describe('webhook deliveries', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  async function subscribe(): Promise<{ object: ReturnType<typeof createContentDO>['object']; webhookId: string }> {
+    const { object } = createContentDO();
+    const created = await send<WebhookView>(object, 'POST', '/content/docs/webhooks', {
+      body: { url: HOOK_URL, events: ['version.created'], secret: SECRET }
+    });
+    expect(created.status).toBe(201);
+    return { object, webhookId: created.body.id };
+  }
+
+  it('posts signed events to the subscriber from the alarm', async () => {
+    const received = stubReceiver([200]);
+    const { object, webhookId } = await subscribe();
+    await send(object, 'POST', '/content/docs/versions', { body: { content: 'Hello', message: 'First' } });
+    expect(received).toHaveLength(0);
+
+    await object.alarm();
+
+    expect(received).toHaveLength(1);
+    const [delivery] = received;
+    expect(delivery.url).toBe(HOOK_URL);
+    expect(delivery.headers.get('X-Webhook-Id')).toBe(webhookId);
+    expect(delivery.headers.get('X-Webhook-Event')).toBe('version.created');
+    const timestamp = delivery.headers.get('X-Webhook-Timestamp') as string;
+    expect(delivery.headers.get('X-Webhook-Signature')).toBe(`sha256=${await hexHmac(SECRET, `${timestamp}.${delivery.body}`)}`);
+
+    const payload = JSON.parse(delivery.body);
+    expect(payload).toMatchObject({ event: 'version.created', documentId: 'docs', data: { version: { id: 1, message: 'First' } } });
+    expect(payload.id).toBe(delivery.headers.get('X-Webhook-Delivery'));
+  });
+
+  it('only sends the events a webhook subscribed to', async () => {
+    const received = stubReceiver([200]);
+    const { object } = await subscribe();
+    await send(object, 'POST', '/content/docs/versions', { body: { content: 'Hello' } });
+    await send(object, 'POST', '/content/docs/tags', { body: { versionId: 1, name: 'v1' } });
+    await object.alarm();
+    expect(received.map(delivery => delivery.headers.get('X-Webhook-Event'))).toEqual(['version.created']);
+  });
+
+  it('retries failed deliveries with a growing delay and logs every attempt', async () => {
+    const received = stubReceiver([500, 503, 200]);
+    const { object, webhookId } = await subscribe();
+    await send(object, 'POST', '/content/docs/versions', { body: { content: 'Hello' } });
+
+    await object.alarm();
+    let [delivery] = (await send<WebhookDelivery[]>(object, 'GET', `/content/docs/webhooks/${webhookId}/deliveries`)).body;
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 500, error: 'Subscriber responded with 500' });
+    expect(Date.parse(delivery.nextAttemptAt as string)).toBe(Date.now() + retryDelay(1));
+
+    // Not due yet: nothing is sent
+    vi.setSystemTime(Date.now() + retryDelay(1) - 1000);
+    await object.alarm();
+    expect(received).toHaveLength(1);
+
+    vi.setSystemTime(Date.parse(delivery.nextAttemptAt as string));
+    await object.alarm();
+    [delivery] = (await send<WebhookDelivery[]>(object, 'GET', `/content/docs/webhooks/${webhookId}/deliveries`)).body;
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 2, responseStatus: 503 });
+    expect(Date.parse(delivery.nextAttemptAt as string)).toBe(Date.now() + retryDelay(2));
+
+    vi.setSystemTime(Date.parse(delivery.nextAttemptAt as string));
+    await object.alarm();
+    [delivery] = (await send<WebhookDelivery[]>(object, 'GET', `/content/docs/webhooks/${webhookId}/deliveries`)).body;
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 3, responseStatus: 200 });
+    expect(delivery.nextAttemptAt).toBeUndefined();
+    expect(received).toHaveLength(3);
+    // Every attempt carries the same delivery id, so subscribers can drop duplicates
+    expect(new Set(received.map(r => r.headers.get('X-Webhook-Delivery'))).size).toBe(1);
+  });
+
+  it('changes the ETag of the delivery log when the alarm attempts a delivery', async () => {
+    stubReceiver([500]);
+    const { object, webhookId } = await subscribe();
+    await send(object, 'POST', '/content/docs/versions', { body: { content: 'Hello' } });
+    const path = `/content/docs/webhooks/${webhookId}/deliveries`;
+    const etag = (await send(object, 'GET', path)).headers.get('ETag') as string;
+
+    await object.alarm();
+
+    const after = await send(object, 'GET', path, { headers: { ...(await authHeaders()), 'If-None-Match': etag } });
+    expect(after.status).toBe(200);
+    expect(after.body).toMatchObject([{ attempts: 1, responseStatus: 500 }]);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const received = stubReceiver([500]);
+    const { object, webhookId } = await subscribe();
+    await send(object, 'POST', '/content/docs/versions', { body: { content: 'Hello' } });
+
+    for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS + 1; attempt++) {
+      await object.alarm();
+      vi.setSystemTime(Date.now() + retryDelay(attempt));
+    }
+
+    expect(received).toHaveLength(MAX_DELIVERY_ATTEMPTS);
+    const failed = await send<WebhookDelivery[]>(object, 'GET', `/content/docs/webhooks/${webhookId}/deliveries?status=failed`);
+    expect(failed.body).toHaveLength(1);
+    expect(failed.body[0]).toMatchObject({ status: 'failed', attempts: MAX_DELIVERY_ATTEMPTS });
+  });
+
+  it('records subscribers that cannot be reached', async () => {
+    vi.stubGlobal('fetch', async () => {
+      throw new Error('connection refused');
+    });
+    const { object, webhookId } = await subscribe();
+    await send(object, 'POST', '/content/docs/versions', { body: { content: 'Hello' } });
+    await object.alarm();
+
+    const [delivery] = (await send<WebhookDelivery[]>(object, 'GET', `/content/docs/webhooks/${webhookId}/deliveries`)).body;
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1, error: 'connection refused' });
+    expect(delivery.responseStatus).toBeUndefined();
+  });
+});
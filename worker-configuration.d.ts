@@ -2,4 +2,10 @@
 
 interface Env {
 	CONTENT: DurableObjectNamespace /* ContentDO */;
+	REGISTRY: DurableObjectNamespace /* RegistryDO */;
+	AUTH_SECRET: string;
+	SITE_TITLE?: string;
+	BASE_URL?: string;
+	STYLESHEET_URL?: string;
+	CACHE_TTL?: string;
 }